@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  childLoginsPath,
+  decodeChildLogin,
+  isChildProfileActive,
+  normalizePairingCode,
+  redeemPairingCode,
+  startChildSession,
+} from "@/lib/auth/child-accounts";
+import { getSchedulerIdToken } from "@/lib/auth/internal";
+import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { readSessionClient } from "@/lib/auth/session-registry";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import { getDocument } from "@/lib/firestore/rest";
+
+type PairSignInBody = {
+  code?: unknown;
+};
+
+/** Signs a child in on any device with a one-time pairing code from a parent. */
+export async function POST(request: NextRequest) {
+  let body: PairSignInBody;
+  try {
+    body = (await request.json()) as PairSignInBody;
+  } catch {
+    return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+  }
+  const code = normalizePairingCode(body.code);
+  if (!code) {
+    return NextResponse.json({ error: "invalid_code" }, { status: 400 });
+  }
+
+  try {
+    const serviceIdToken = await getSchedulerIdToken();
+    const pairing = await redeemPairingCode(code, serviceIdToken);
+    if (pairing.kind === "invalid_code") {
+      return NextResponse.json({ error: "invalid_code" }, { status: 400 });
+    }
+
+    if (!(await isChildProfileActive(pairing.familyId, pairing.memberId, serviceIdToken))) {
+      return NextResponse.json({ error: "profile_not_found" }, { status: 404 });
+    }
+
+    const loginDoc = await getDocument(
+      `${childLoginsPath(pairing.familyId)}/${pairing.memberId}`,
+      serviceIdToken,
+    );
+    const sessionUser = await startChildSession(
+      decodeChildLogin(loginDoc),
+      readSessionClient(request),
+    );
+    const response = NextResponse.json({ success: true, memberId: pairing.memberId });
+    setSessionUserCookie(response, sessionUser);
+    return response;
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+    console.error("[CHILD_PAIR_SIGNIN_ERROR]", reason);
+    if (error instanceof FirestoreNotFoundError) {
+      return NextResponse.json({ error: "profile_not_found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "child_signin_failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkChildPin,
+  isChildProfileActive,
+  isValidPin,
+  startChildSession,
+} from "@/lib/auth/child-accounts";
+import { getFamilyDeviceFromRequest, isFamilyDeviceActive } from "@/lib/auth/family-device";
+import { getSchedulerIdToken } from "@/lib/auth/internal";
+import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { readSessionClient } from "@/lib/auth/session-registry";
+
+type PinSignInBody = {
+  memberId?: unknown;
+  pin?: unknown;
+};
+
+/** Signs a child in on a paired family tablet with the PIN their parent set. */
+export async function POST(request: NextRequest) {
+  const device = getFamilyDeviceFromRequest(request);
+  if (!device) {
+    return NextResponse.json({ error: "device_not_paired" }, { status: 401 });
+  }
+
+  let body: PinSignInBody;
+  try {
+    body = (await request.json()) as PinSignInBody;
+  } catch {
+    return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+  }
+  const memberId = typeof body.memberId === "string" ? body.memberId.trim() : "";
+  if (!memberId || memberId.includes("/")) {
+    return NextResponse.json({ error: "member_id_required" }, { status: 400 });
+  }
+  if (!isValidPin(body.pin)) {
+    return NextResponse.json({ error: "invalid_pin" }, { status: 401 });
+  }
+
+  try {
+    const serviceIdToken = await getSchedulerIdToken();
+    if (!(await isFamilyDeviceActive(device, serviceIdToken))) {
+      return NextResponse.json({ error: "device_not_paired" }, { status: 401 });
+    }
+
+    const result = await checkChildPin(device.familyId, memberId, body.pin, serviceIdToken);
+    if (result.kind === "not_found") {
+      return NextResponse.json({ error: "profile_not_found" }, { status: 404 });
+    }
+    if (result.kind === "pin_not_set") {
+      return NextResponse.json({ error: "pin_not_set" }, { status: 409 });
+    }
+    if (result.kind === "invalid_pin") {
+      return NextResponse.json(
+        { error: "invalid_pin", attemptsLeft: result.attemptsLeft },
+        { status: 401 },
+      );
+    }
+    if (result.kind === "locked") {
+      return NextResponse.json(
+        { error: "profile_locked", lockedUntil: result.lockedUntil },
+        { status: 429 },
+      );
+    }
+
+    if (!(await isChildProfileActive(device.familyId, memberId, serviceIdToken))) {
+      return NextResponse.json({ error: "profile_not_found" }, { status: 404 });
+    }
+
+    const sessionUser = await startChildSession(result.login, readSessionClient(request));
+    const response = NextResponse.json({ success: true, memberId });
+    setSessionUserCookie(response, sessionUser);
+    return response;
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+    console.error("[CHILD_PIN_SIGNIN_ERROR]", reason);
+    return NextResponse.json({ error: "child_signin_failed" }, { status: 500 });
+  }
+}
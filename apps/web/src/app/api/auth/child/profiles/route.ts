@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { childLoginsPath, decodeChildLogin } from "@/lib/auth/child-accounts";
+import { getFamilyDeviceFromRequest, isFamilyDeviceActive } from "@/lib/auth/family-device";
+import { getSchedulerIdToken } from "@/lib/auth/internal";
+import { listAllDocuments } from "@/lib/firestore/rest";
+import { getAvatar } from "@/lib/shop/avatar";
+
+export const dynamic = "force-dynamic";
+
+/** The "who's playing?" list a paired family tablet shows before anyone is signed in. */
+export async function GET(request: NextRequest) {
+  const device = getFamilyDeviceFromRequest(request);
+  if (!device) {
+    return NextResponse.json({ error: "device_not_paired" }, { status: 401 });
+  }
+
+  try {
+    const serviceIdToken = await getSchedulerIdToken();
+    if (!(await isFamilyDeviceActive(device, serviceIdToken))) {
+      return NextResponse.json({ error: "device_not_paired" }, { status: 401 });
+    }
+
+    const logins = (
+      await listAllDocuments(childLoginsPath(device.familyId), serviceIdToken)
+    ).map((doc) => decodeChildLogin(doc));
+    const profiles = await Promise.all(
+      logins.map(async (login) => ({
+        memberId: login.memberId,
+        name: login.name,
+        avatar: await getAvatar(device.familyId, login.memberId, serviceIdToken),
+        hasPin: Boolean(login.pinHash),
+      })),
+    );
+    profiles.sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json({ familyId: device.familyId, profiles });
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+    console.error("[CHILD_PROFILES_ERROR]", reason);
+    return NextResponse.json({ error: "profiles_unavailable" }, { status: 500 });
+  }
+}
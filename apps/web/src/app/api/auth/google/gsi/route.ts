@@ -3,13 +3,14 @@ import {
   type SessionUser,
 } from "@/lib/auth/session";
 import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { createSessionRecord, readSessionClient } from "@/lib/auth/session-registry";
+import { getUserFamilyIds, linkUserFamily } from "@/lib/family/membership";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
 import {
   findFirstFamilyIdByMemberEmail,
   getDocument,
   patchDocument,
   readString,
-  readStringArray,
-  stringArrayField,
   stringField,
   timestampField,
 } from "@/lib/firestore/rest";
@@ -143,24 +144,16 @@ async function upsertFirebaseUser(
     uid: session.localId,
     email: maskEmail(normalizedEmail),
   });
-  let existingFamilyIds: string[] = [];
-  try {
-    const existingUserDoc = await getDocument(`users/${session.localId}`, session.idToken);
-    existingFamilyIds = readStringArray(existingUserDoc.fields, "familyIds");
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : "";
-    if (!reason.includes("FIRESTORE_HTTP_404")) {
-      throw error;
-    }
-  }
+  const existingFamilyIds = await getUserFamilyIds(session.localId, session.idToken);
 
-  let linkedFamilyId = existingFamilyIds[0] ?? "";
+  // A pending invite is linked even for users who already belong to a family, so it shows
+  // up in their family switcher.
+  let linkedFamilyId = "";
   logInviteDebug("gsi_existing_user", {
     uid: session.localId,
     familyIdsCount: existingFamilyIds.length,
-    linkedFamilyId: linkedFamilyId || null,
   });
-  if (!linkedFamilyId && normalizedEmail) {
+  if (normalizedEmail) {
     try {
       const inviteLookupDoc = await getDocument(`inviteLookup/${normalizedEmail}`, session.idToken);
       const inviteLookupStatus = readString(inviteLookupDoc.fields, "status");
@@ -175,17 +168,16 @@ async function upsertFirebaseUser(
         inviteLookupFamilyId: inviteLookupFamilyId || null,
       });
     } catch (error) {
-      const reason = error instanceof Error ? error.message : "";
-      if (!reason.includes("FIRESTORE_HTTP_404")) {
+      if (!(error instanceof FirestoreNotFoundError)) {
         logInviteDebug("gsi_invite_lookup_error", {
           uid: session.localId,
           email: maskEmail(normalizedEmail),
-          reason: reason.slice(0, 180),
+          reason: error instanceof Error ? error.message.slice(0, 180) : "",
         });
       }
     }
   }
-  if (!linkedFamilyId && normalizedEmail) {
+  if (!linkedFamilyId && existingFamilyIds.length === 0 && normalizedEmail) {
     linkedFamilyId = await findFirstFamilyIdByMemberEmail(normalizedEmail, session.idToken);
     logInviteDebug("gsi_email_lookup", {
       uid: session.localId,
@@ -210,12 +202,6 @@ async function upsertFirebaseUser(
     photoUrl: stringField(tokenInfo.picture ?? session.photoUrl ?? ""),
     provider: stringField("google"),
     lastSignInAt: timestampField(now),
-    ...(linkedFamilyId
-      ? {
-          familyIds: stringArrayField([linkedFamilyId]),
-          lastFamilyUpdateAt: timestampField(now),
-        }
-      : {}),
   };
   await patchDocument(
     `users/${session.localId}`,
@@ -223,6 +209,9 @@ async function upsertFirebaseUser(
     session.idToken,
     Object.keys(authFields),
   );
+  if (linkedFamilyId && !existingFamilyIds.includes(linkedFamilyId)) {
+    await linkUserFamily(session.localId, linkedFamilyId, session.idToken);
+  }
   logInviteDebug("gsi_user_patch_success", {
     uid: session.localId,
     email: maskEmail(normalizedEmail),
@@ -263,6 +252,12 @@ export async function POST(request: NextRequest) {
       await upsertFirebaseUser(firebaseSession, tokenInfo);
     }
 
+    const sessionId = await createSessionRecord(
+      firebaseSession.localId,
+      readSessionClient(request),
+      firebaseSession.idToken,
+    );
+
     const redirect = redirectToPath(request, "/");
     const sessionCookie: SessionUser = {
       uid: firebaseSession.localId,
@@ -270,6 +265,7 @@ export async function POST(request: NextRequest) {
       email: normalizedEmail,
       name: tokenInfo.name ?? firebaseSession.displayName ?? "",
       picture: tokenInfo.picture ?? firebaseSession.photoUrl ?? "",
+      sessionId,
       firebaseIdToken: firebaseSession.idToken,
       firebaseRefreshToken: firebaseSession.refreshToken,
     };
@@ -1,4 +1,8 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
+import { getSessionFromRequest } from "@/lib/auth/request-session";
+import { clearSessionUserCookie } from "@/lib/auth/session-cookie";
+import { revokeSession } from "@/lib/auth/session-registry";
 
 function resolvePublicOrigin(request: Request) {
   const configured = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/$/, "");
@@ -18,16 +22,29 @@ function resolvePublicOrigin(request: Request) {
 function clearSessionAndRedirect(request: Request) {
   const url = new URL("/", resolvePublicOrigin(request));
   const response = NextResponse.redirect(url, 303);
-  response.cookies.set("session_user", "", {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
-    path: "/",
-    maxAge: 0,
-  });
+  clearSessionUserCookie(response);
   return response;
 }
 
-export async function POST(request: Request) {
+// Best effort: the cookie is cleared either way, and an unrevoked record still expires.
+async function revokeCurrentSession(request: NextRequest) {
+  const session = getSessionFromRequest(request);
+  const sessionId = session?.sessionId;
+  if (!session || !sessionId) {
+    return;
+  }
+  try {
+    await runWithRefreshedFirebaseToken(session, (idToken) =>
+      revokeSession(session.uid, sessionId, idToken),
+    );
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+    console.error("[LOGOUT_REVOKE_ERROR]", reason);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  await revokeCurrentSession(request);
   return clearSessionAndRedirect(request);
 }
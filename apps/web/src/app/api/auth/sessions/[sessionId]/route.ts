@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import { clearSessionUserCookie } from "@/lib/auth/session-cookie";
+import { revokeSession } from "@/lib/auth/session-registry";
+
+export const dynamic = "force-dynamic";
+
+export const DELETE = withSession<{ sessionId: string }>(
+  { errorTag: "AUTH_SESSION_REVOKE_ERROR", failureError: "revoke_session_failed" },
+  async ({ params, session, idToken }) => {
+    const sessionId = params.sessionId.trim();
+    if (!sessionId || !(await revokeSession(session.uid, sessionId, idToken))) {
+      return NextResponse.json({ error: "session_not_found" }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true, sessionId });
+    if (sessionId === session.sessionId) {
+      clearSessionUserCookie(response);
+    }
+    return response;
+  },
+);
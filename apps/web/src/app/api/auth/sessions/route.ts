@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import { clearSessionUserCookie } from "@/lib/auth/session-cookie";
+import { listActiveSessions, revokeAllSessions } from "@/lib/auth/session-registry";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withSession(
+  { errorTag: "AUTH_SESSIONS_ERROR", failureError: "sessions_unavailable" },
+  async ({ session, idToken }) => {
+    const sessions = await listActiveSessions(session, idToken);
+    return NextResponse.json({ sessions });
+  },
+);
+
+/** Signs out everywhere, including this browser. */
+export const DELETE = withSession(
+  { errorTag: "AUTH_SESSIONS_REVOKE_ALL_ERROR", failureError: "revoke_sessions_failed" },
+  async ({ session, idToken }) => {
+    await revokeAllSessions(session.uid, idToken);
+    const response = NextResponse.json({ success: true });
+    clearSessionUserCookie(response);
+    return response;
+  },
+);
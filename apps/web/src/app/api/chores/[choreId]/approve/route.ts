@@ -0,0 +1,3 @@
+import { reviewChoreRoute } from "@/lib/chores/workflow";
+
+export const POST = reviewChoreRoute("approve");
@@ -1,105 +1,243 @@
-import { NextRequest, NextResponse } from "next/server";
-import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
-import { getSessionFromRequest } from "@/lib/auth/request-session";
-import { setSessionUserCookie } from "@/lib/auth/session-cookie";
-import { getDocument, patchDocument, readStringArray, stringField, timestampField, boolField } from "@/lib/firestore/rest";
-
-function jsonUnauthorized() {
-  return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-}
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { DEFAULT_CHORE_COIN_VALUE, isValidCoinValue } from "@/lib/chores/difficulty";
+import { getFamilyMemberName, normalizeDescription } from "@/lib/chores/schema";
+import { FirestoreConflictError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitWrites,
+  documentName,
+  type FirestoreValue,
+  getDocument,
+  integerField,
+  mapArrayField,
+  patchDocument,
+  readInteger,
+  readMapArray,
+  readString,
+  stringArrayField,
+  stringField,
+  timestampField,
+} from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
 
-function jsonReauthRequired() {
-  return NextResponse.json(
-    {
-      error: "reauth_required",
-      message: "Please sign out and sign in again to refresh your session.",
-    },
-    { status: 401 },
-  );
-}
+type EditChoreBody = {
+  title?: unknown;
+  details?: unknown;
+  dueDate?: unknown;
+  assigneeId?: unknown;
+  coinValue?: unknown;
+};
 
-function jsonFirestoreForbidden() {
-  return NextResponse.json(
-    {
-      error: "firestore_forbidden",
-      message:
-        "Authenticated user does not have access to Firestore documents under current rules.",
-    },
-    { status: 403 },
-  );
-}
+type EditableChoreField = "title" | "details" | "dueDate" | "assigneeId" | "coinValue";
 
-async function getPrimaryFamilyId(uid: string, idToken: string) {
-  const userDoc = await getDocument(`users/${uid}`, idToken);
-  return readStringArray(userDoc.fields, "familyIds")[0] ?? "";
-}
+const MAX_EDIT_HISTORY = 20;
 
-export async function DELETE(
-  request: NextRequest,
-  context: { params: Promise<{ choreId: string }> },
-) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return jsonUnauthorized();
+function parseEditChoreBody(body: EditChoreBody) {
+  const updates: Partial<Record<EditableChoreField, string | number>> = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === "string" ? normalizeDescription(body.title) : "";
+    if (!title) {
+      return { error: "description_required" };
+    }
+    if (title.length > 160) {
+      return { error: "description_too_long" };
+    }
+    updates.title = title;
+  }
+  if (body.details !== undefined) {
+    if (typeof body.details !== "string") {
+      return { error: "invalid_details" };
+    }
+    updates.details = body.details.trim().slice(0, 2000);
+  }
+  if (body.dueDate !== undefined) {
+    if (typeof body.dueDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(body.dueDate)) {
+      return { error: "invalid_due_date" };
+    }
+    updates.dueDate = body.dueDate;
+  }
+  if (body.assigneeId !== undefined) {
+    if (typeof body.assigneeId !== "string") {
+      return { error: "invalid_assignee" };
+    }
+    // An empty assignee id unassigns the chore.
+    updates.assigneeId = body.assigneeId.trim();
   }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
+  if (body.coinValue !== undefined) {
+    if (!isValidCoinValue(body.coinValue)) {
+      return { error: "invalid_coin_value" };
+    }
+    updates.coinValue = body.coinValue;
   }
 
-  const { choreId } = await context.params;
-  if (!choreId) {
-    return NextResponse.json({ error: "chore_id_required" }, { status: 400 });
+  if (Object.keys(updates).length === 0) {
+    return { error: "no_changes" };
   }
+  return { updates };
+}
 
-  try {
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        const familyId = await getPrimaryFamilyId(session.uid, idToken);
-        if (!familyId) {
-          return { kind: "family_not_found" as const };
-        }
+function currentChoreValue(
+  fields: Record<string, FirestoreValue> | undefined,
+  field: EditableChoreField,
+) {
+  return field === "coinValue"
+    ? readInteger(fields, field) || DEFAULT_CHORE_COIN_VALUE
+    : readString(fields, field);
+}
 
-        const now = new Date().toISOString();
-        await patchDocument(
-          `families/${familyId}/chores/${choreId}`,
-          {
-            deleted: boolField(true),
-            deletedAt: timestampField(now),
-            status: stringField("Deleted"),
-          },
-          idToken,
-          ["deleted", "deletedAt", "status"],
-        );
+function editableFieldValue(field: EditableChoreField, value: string | number) {
+  return field === "coinValue" ? integerField(Number(value)) : stringField(String(value));
+}
 
-        return { kind: "ok" as const };
-      });
+export const PATCH = withFamily<{ choreId: string }>(
+  {
+    errorTag: "CHORE_EDIT_ERROR",
+    failureError: "edit_chore_failed",
+    notFoundError: "chore_not_found",
+    permission: "chores:edit",
+  },
+  async ({ params, session, familyId, idToken, readJson }) => {
+    const { choreId } = params;
+    if (!choreId) {
+      return NextResponse.json({ error: "chore_id_required" }, { status: 400 });
+    }
 
-    if (data.kind === "family_not_found") {
-      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+    const body = await readJson<EditChoreBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const parsed = parseEditChoreBody(body);
+    if (!parsed.updates) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
+    const updates = parsed.updates;
 
-    const response = NextResponse.json({ success: true });
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
+    const choreDoc = await getDocument(`families/${familyId}/chores/${choreId}`, idToken);
+    const status = readString(choreDoc.fields, "status");
+    if (status === "Deleted") {
+      return NextResponse.json({ error: "chore_not_found" }, { status: 404 });
     }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
-    console.error("[CHORE_SOFT_DELETE_ERROR]", reason);
-    if (reason.includes("FIRESTORE_HTTP_401") || reason.includes("FIREBASE_REFRESH_FAILED")) {
-      return jsonReauthRequired();
+    // The payout is already in the ledger, so approved chores are frozen.
+    if (status === "Approved") {
+      return NextResponse.json({ error: "chore_locked" }, { status: 409 });
     }
-    if (reason.includes("FIRESTORE_HTTP_403")) {
-      return jsonFirestoreForbidden();
+
+    const changedFields = (Object.keys(updates) as EditableChoreField[]).filter(
+      (field) => currentChoreValue(choreDoc.fields, field) !== updates[field],
+    );
+    const fields: Record<string, FirestoreValue> = {};
+    const previous: Record<string, FirestoreValue> = {};
+    for (const field of changedFields) {
+      fields[field] = editableFieldValue(field, updates[field] ?? "");
+      previous[field] = editableFieldValue(field, currentChoreValue(choreDoc.fields, field));
     }
-    if (
-      reason.includes("FIRESTORE_HTTP_404") &&
-      reason.toLowerCase().includes("document") &&
-      reason.toLowerCase().includes("not found")
-    ) {
-      return NextResponse.json({ error: "chore_not_found" }, { status: 404 });
+    let assigneeName = readString(choreDoc.fields, "assigneeName") || "Unassigned";
+    if (changedFields.includes("assigneeId")) {
+      const assigneeId = String(updates.assigneeId ?? "");
+      previous.assigneeName = stringField(assigneeName);
+      assigneeName = assigneeId
+        ? await getFamilyMemberName(familyId, assigneeId, idToken)
+        : "Unassigned";
+      fields.assigneeName = stringField(assigneeName);
     }
-    return NextResponse.json({ error: "delete_chore_failed" }, { status: 500 });
-  }
-}
+    // A hand-picked reward no longer follows a difficulty preset, as on create.
+    const difficulty = readString(choreDoc.fields, "difficulty");
+    if (changedFields.includes("coinValue") && difficulty) {
+      previous.difficulty = stringField(difficulty);
+      fields.difficulty = stringField("");
+    }
+
+    if (changedFields.length > 0) {
+      const now = new Date().toISOString();
+      const history = [
+        ...readMapArray(choreDoc.fields, "editHistory"),
+        {
+          editedBy: stringField(session.uid),
+          editedAt: timestampField(now),
+          fields: stringArrayField(changedFields),
+          previous: { mapValue: { fields: previous } },
+        },
+      ].slice(-MAX_EDIT_HISTORY);
+      fields.editHistory = mapArrayField(history);
+      fields.updatedAt = timestampField(now);
+
+      // Guard on the update time so two admins editing at once cannot drop history.
+      try {
+        await commitWrites(
+          [
+            {
+              update: {
+                name: documentName(`families/${familyId}/chores/${choreId}`),
+                fields,
+              },
+              updateMask: { fieldPaths: Object.keys(fields) },
+              ...(choreDoc.updateTime
+                ? { currentDocument: { updateTime: choreDoc.updateTime } }
+                : {}),
+            },
+          ],
+          idToken,
+        );
+      } catch (error) {
+        if (error instanceof FirestoreConflictError) {
+          return NextResponse.json({ error: "edit_conflict" }, { status: 409 });
+        }
+        throw error;
+      }
+      await publishFamilyEvent(familyId, session.uid, {
+        type: "chore.updated",
+        choreId,
+        status: status || "Open",
+      });
+    }
+
+    const nextValue = (field: EditableChoreField) =>
+      updates[field] ?? currentChoreValue(choreDoc.fields, field);
+    return NextResponse.json({
+      success: true,
+      changed: changedFields,
+      chore: {
+        id: choreId,
+        title: String(nextValue("title")),
+        details: String(nextValue("details")),
+        dueDate: String(nextValue("dueDate")),
+        assigneeId: String(nextValue("assigneeId")),
+        assigneeName,
+        coinValue: Number(nextValue("coinValue")),
+        status: status || "Open",
+      },
+    });
+  },
+);
+
+export const DELETE = withFamily<{ choreId: string }>(
+  {
+    errorTag: "CHORE_SOFT_DELETE_ERROR",
+    failureError: "delete_chore_failed",
+    notFoundError: "chore_not_found",
+    permission: "chores:delete",
+  },
+  async ({ params, session, familyId, idToken }) => {
+    const { choreId } = params;
+    if (!choreId) {
+      return NextResponse.json({ error: "chore_id_required" }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    await patchDocument(
+      `families/${familyId}/chores/${choreId}`,
+      {
+        deleted: boolField(true),
+        deletedAt: timestampField(now),
+        status: stringField("Deleted"),
+      },
+      idToken,
+      ["deleted", "deletedAt", "status"],
+    );
+
+    await publishFamilyEvent(familyId, session.uid, { type: "chore.deleted", choreId });
+    return NextResponse.json({ success: true });
+  },
+);
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withFamily } from "@/lib/api/route";
+import { applyChoreTransition } from "@/lib/chores/workflow";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+export const POST = withFamily<{ choreId: string }>(
+  {
+    errorTag: "CHORE_SUBMIT_ERROR",
+    failureError: "submit_chore_failed",
+    notFoundError: "chore_not_found",
+  },
+  async ({ params: { choreId }, session, familyId, member, idToken }) => {
+    if (!choreId) {
+      return NextResponse.json({ error: "chore_id_required" }, { status: 400 });
+    }
+
+    const result = await applyChoreTransition({
+      familyId,
+      choreId,
+      transition: "submit",
+      actor: { uid: session.uid, email: session.email, role: member.role },
+      idToken,
+    });
+    if (result.kind === "chore_not_found") {
+      return NextResponse.json({ error: "chore_not_found" }, { status: 404 });
+    }
+    if (result.kind === "not_allowed") {
+      return jsonNotAllowed();
+    }
+    if (result.kind === "not_assignee") {
+      return NextResponse.json({ error: "not_assignee" }, { status: 403 });
+    }
+    if (result.kind === "invalid_transition") {
+      return NextResponse.json(
+        { error: "invalid_transition", status: result.status },
+        { status: 409 },
+      );
+    }
+    if (result.kind === "chore_changed") {
+      return NextResponse.json({ error: "chore_changed" }, { status: 409 });
+    }
+
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "chore.updated",
+      choreId,
+      status: result.status,
+    });
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      submittedAt: result.actedAt,
+    });
+  },
+);
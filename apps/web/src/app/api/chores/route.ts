@@ -1,24 +1,62 @@
 import { randomUUID } from "node:crypto";
-import { NextRequest, NextResponse } from "next/server";
-import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
-import { getSessionFromRequest } from "@/lib/auth/request-session";
-import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { NextResponse } from "next/server";
+import { withFamily, withSession } from "@/lib/api/route";
 import {
+  type ChoreDifficulty,
+  DEFAULT_CHORE_COIN_VALUE,
+  type DifficultyPresets,
+  isChoreDifficulty,
+  isValidCoinValue,
+  readDifficultyPresets,
+} from "@/lib/chores/difficulty";
+import { isIsoDate } from "@/lib/chores/schedules";
+import { decodeChoreDoc, getFamilyMemberName, normalizeDescription } from "@/lib/chores/schema";
+import { toChoreStatus } from "@/lib/chores/workflow";
+import { getActiveFamilyId } from "@/lib/family/membership";
+import { getMemberRole } from "@/lib/family/permissions";
+import { localDateInTimeZone, readFamilyTimeZone } from "@/lib/family/timezone";
+import {
+  andFilter,
   boolField,
-  createOrReplaceDocument,
-  documentIdFromName,
+  commitBatch,
+  DOCUMENT_MUST_NOT_EXIST,
+  documentName,
+  fieldFilter,
   type FirestoreValue,
+  type FirestoreWrite,
   getDocument,
+  incrementTransform,
   integerField,
-  listDocuments,
-  readBoolean,
-  readInteger,
-  readString,
-  readStringArray,
-  readTimestamp,
+  orderByField,
+  queryDocuments,
+  type QueryOptions,
+  referenceField,
+  serverTimestampTransform,
+  setDocumentWrite,
   stringField,
   timestampField,
 } from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+// One chore write plus up to two usage counters each must fit in a single commit.
+const MAX_CHORES_PER_REQUEST = 150;
+
+const DEFAULT_CHORES_PAGE_SIZE = 50;
+const MAX_CHORES_PAGE_SIZE = 200;
+
+// Position of the last chore on a page, in the list's sort order (due date, then newest).
+type ChoresCursor = {
+  dueDate: string;
+  createdAt: string;
+  id: string;
+};
+
+type ChoresListFilters = {
+  status: string;
+  assigneeId: string;
+  dueFrom: string;
+  dueTo: string;
+};
 
 type CreateChoresBody = {
   description?: unknown;
@@ -26,6 +64,18 @@ type CreateChoresBody = {
   details?: unknown;
   titles?: unknown;
   dueDate?: unknown;
+  coinValue?: unknown;
+  difficulty?: unknown;
+};
+
+// A chore's reward: an explicit coin value wins over a difficulty preset.
+type ChoreReward = {
+  coinValue?: number;
+  difficulty?: ChoreDifficulty;
+};
+
+type NewChore = ChoreReward & {
+  title: string;
 };
 
 type ChoreRow = {
@@ -37,52 +87,20 @@ type ChoreRow = {
   details?: string;
   dueDate: string;
   coinValue: number;
+  difficulty?: ChoreDifficulty;
   deleted: boolean;
   createdAt?: string;
+  submittedBy?: string;
+  submittedAt?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
 };
 
-function jsonUnauthorized() {
-  return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-}
-
-function jsonReauthRequired() {
-  return NextResponse.json(
-    {
-      error: "reauth_required",
-      message: "Please sign out and sign in again to refresh your session.",
-    },
-    { status: 401 },
-  );
-}
-
-function jsonFirestoreForbidden() {
-  return NextResponse.json(
-    {
-      error: "firestore_forbidden",
-      message:
-        "Authenticated user does not have access to Firestore documents under current rules.",
-    },
-    { status: 403 },
-  );
-}
-
-function toUnixMillis(value?: string) {
-  if (!value) {
-    return 0;
-  }
-  const parsed = Date.parse(value);
-  return Number.isNaN(parsed) ? 0 : parsed;
-}
-
-function asDateOrToday(value: unknown) {
+function asDateOrToday(value: unknown, timeZone: string) {
   if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
     return value;
   }
-  return new Date().toISOString().slice(0, 10);
-}
-
-function normalizeDescription(value: string) {
-  return value.trim().replace(/\s+/g, " ");
+  return localDateInTimeZone(timeZone);
 }
 
 function usageKey(value: string) {
@@ -95,180 +113,148 @@ function usageKey(value: string) {
   return key || "misc";
 }
 
-async function getPrimaryFamilyId(uid: string, idToken: string) {
-  const userDoc = await getDocument(`users/${uid}`, idToken);
-  return readStringArray(userDoc.fields, "familyIds")[0] ?? "";
-}
-
-async function getFamilyMemberName(
-  familyId: string,
-  memberId: string,
-  idToken: string,
-) {
-  try {
-    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
-    return readString(memberDoc.fields, "name") || "Unassigned";
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : "";
-    if (reason.includes("FIRESTORE_HTTP_404")) {
-      return "Unassigned";
-    }
-    throw error;
+function readReward(value: { coinValue?: unknown; difficulty?: unknown }) {
+  if (value.coinValue !== undefined && !isValidCoinValue(value.coinValue)) {
+    return null;
   }
-}
-
-async function incrementUsageCount(
-  path: string,
-  description: string,
-  idToken: string,
-  usageField: "familyCount" | "globalCount",
-) {
-  let currentCount = 0;
-  try {
-    const doc = await getDocument(path, idToken);
-    currentCount = readInteger(doc.fields, usageField);
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : "";
-    if (!reason.includes("FIRESTORE_HTTP_404")) {
-      throw error;
-    }
+  if (value.difficulty !== undefined && !isChoreDifficulty(value.difficulty)) {
+    return null;
   }
-
-  const now = new Date().toISOString();
-  await createOrReplaceDocument(
-    path,
-    {
-      description: stringField(description),
-      normalized: stringField(description.toLowerCase()),
-      [usageField]: integerField(currentCount + 1),
-      updatedAt: timestampField(now),
-    },
-    idToken,
-  );
-}
-
-function normalizeChoreDoc(doc: {
-  name: string;
-  fields?: Record<string, FirestoreValue>;
-}): ChoreRow {
   return {
-    id: documentIdFromName(doc.name),
-    title: readString(doc.fields, "title") || "Untitled chore",
-    status: readString(doc.fields, "status") || "Open",
-    assigneeId: readString(doc.fields, "assigneeId") || undefined,
-    assigneeName: readString(doc.fields, "assigneeName") || "Unassigned",
-    details: readString(doc.fields, "details") || undefined,
-    dueDate: readString(doc.fields, "dueDate"),
-    coinValue: readInteger(doc.fields, "coinValue") || 10,
-    deleted: readBoolean(doc.fields, "deleted"),
-    createdAt: readTimestamp(doc.fields, "createdAt") || undefined,
+    coinValue: value.coinValue as number | undefined,
+    difficulty: value.difficulty as ChoreDifficulty | undefined,
   };
 }
 
-function mapCommonFirestoreErrors(reason: string) {
-  if (reason.includes("FIRESTORE_HTTP_401")) {
-    return jsonReauthRequired();
+function resolveReward(reward: ChoreReward, fallback: ChoreReward, presets: DifficultyPresets) {
+  if (reward.coinValue !== undefined) {
+    return { coinValue: reward.coinValue, difficulty: "" };
+  }
+  if (reward.difficulty) {
+    return { coinValue: presets[reward.difficulty], difficulty: reward.difficulty };
   }
-  if (reason.includes("FIREBASE_REFRESH_FAILED")) {
-    return jsonReauthRequired();
+  if (fallback.coinValue !== undefined) {
+    return { coinValue: fallback.coinValue, difficulty: "" };
   }
-  if (reason.includes("FIRESTORE_HTTP_403")) {
-    return jsonFirestoreForbidden();
+  if (fallback.difficulty) {
+    return { coinValue: presets[fallback.difficulty], difficulty: fallback.difficulty };
   }
-  return null;
+  return { coinValue: DEFAULT_CHORE_COIN_VALUE, difficulty: "" };
 }
 
-export async function GET(request: NextRequest) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return jsonUnauthorized();
-  }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
-  }
+type UsageTally = {
+  title: string;
+  count: number;
+  coinValue: number;
+  difficulty: string;
+};
 
-  try {
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        let familyId = "";
-        try {
-          familyId = await getPrimaryFamilyId(session.uid, idToken);
-        } catch (error) {
-          const reason = error instanceof Error ? error.message : "";
-          if (
-            reason.includes("FIRESTORE_HTTP_404") &&
-            reason.toLowerCase().includes("document") &&
-            reason.toLowerCase().includes("not found")
-          ) {
-            return { chores: [] as ChoreRow[] };
-          }
-          throw error;
-        }
+// Duplicate titles in one batch collapse into a single increment; the last reward wins.
+function tallyUsage(chores: { title: string; coinValue: number; difficulty: string }[]) {
+  const tallies = new Map<string, UsageTally>();
+  for (const chore of chores) {
+    const key = usageKey(chore.title);
+    const count = (tallies.get(key)?.count ?? 0) + 1;
+    tallies.set(key, { ...chore, count });
+  }
+  return tallies;
+}
 
-        if (!familyId) {
-          return { chores: [] as ChoreRow[] };
+function usageCountWrite(
+  path: string,
+  tally: UsageTally,
+  usageField: "familyCount" | "globalCount",
+  rememberReward: boolean,
+): FirestoreWrite {
+  const fields: Record<string, FirestoreValue> = {
+    description: stringField(tally.title),
+    normalized: stringField(tally.title.toLowerCase()),
+    ...(rememberReward
+      ? {
+          lastCoinValue: integerField(tally.coinValue),
+          lastDifficulty: stringField(tally.difficulty),
         }
+      : {}),
+  };
+  // The counter is a server-side increment so concurrent requests never lose a count.
+  return {
+    update: { name: documentName(path), fields },
+    updateMask: { fieldPaths: Object.keys(fields) },
+    updateTransforms: [
+      incrementTransform(usageField, tally.count),
+      serverTimestampTransform("updatedAt"),
+    ],
+  };
+}
 
-        const docs = await listDocuments(`families/${familyId}/chores`, idToken, 500);
-        const chores = docs
-          .map((doc) => normalizeChoreDoc(doc))
-          .filter((doc) => !doc.deleted)
-          .sort((a, b) => {
-            const dueSort = (a.dueDate || "").localeCompare(b.dueDate || "");
-            if (dueSort !== 0) {
-              return dueSort;
-            }
-            return toUnixMillis(b.createdAt) - toUnixMillis(a.createdAt);
-          })
-          .map((doc) => ({
-            id: doc.id,
-            title: doc.title,
-            status: doc.status,
-            assigneeId: doc.assigneeId,
-            assigneeName: doc.assigneeName,
-            details: doc.details,
-            dueDate: doc.dueDate,
-            coinValue: doc.coinValue,
-            createdAt: doc.createdAt,
-          }));
-
-        return { chores };
-      });
-
-    const response = NextResponse.json(data);
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
-    }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
-    console.error("[CHORES_LIST_ERROR]", reason);
-    const mapped = mapCommonFirestoreErrors(reason);
-    if (mapped) {
-      return mapped;
-    }
-    return NextResponse.json({ error: "chores_unavailable" }, { status: 500 });
-  }
+function emptyChoreList(viewerUid: string) {
+  return {
+    viewerUid,
+    viewerRole: "player" as "admin" | "player",
+    chores: [] as ChoreRow[],
+    nextCursor: "",
+  };
 }
 
-export async function POST(request: NextRequest) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return jsonUnauthorized();
-  }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
-  }
+function encodeChoresCursor(cursor: ChoresCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-  let body: CreateChoresBody;
+function decodeChoresCursor(value: string): ChoresCursor | null {
   try {
-    body = (await request.json()) as CreateChoresBody;
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as Partial<
+      Record<keyof ChoresCursor, unknown>
+    >;
+    if (
+      typeof parsed.dueDate !== "string" ||
+      typeof parsed.createdAt !== "string" ||
+      !parsed.createdAt ||
+      typeof parsed.id !== "string" ||
+      !parsed.id
+    ) {
+      return null;
+    }
+    return { dueDate: parsed.dueDate, createdAt: parsed.createdAt, id: parsed.id };
   } catch {
-    return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    return null;
   }
+}
+
+function choresQuery(
+  familyId: string,
+  filters: ChoresListFilters,
+  cursor: ChoresCursor | null,
+  limit: number,
+): QueryOptions {
+  return {
+    parent: `families/${familyId}`,
+    collection: "chores",
+    where: andFilter(
+      fieldFilter("deleted", "EQUAL", boolField(false)),
+      filters.status && fieldFilter("status", "EQUAL", stringField(filters.status)),
+      filters.assigneeId && fieldFilter("assigneeId", "EQUAL", stringField(filters.assigneeId)),
+      filters.dueFrom &&
+        fieldFilter("dueDate", "GREATER_THAN_OR_EQUAL", stringField(filters.dueFrom)),
+      filters.dueTo && fieldFilter("dueDate", "LESS_THAN_OR_EQUAL", stringField(filters.dueTo)),
+    ),
+    orderBy: [
+      orderByField("dueDate"),
+      orderByField("createdAt", "DESCENDING"),
+      orderByField("__name__", "DESCENDING"),
+    ],
+    startAfter: cursor
+      ? [
+          stringField(cursor.dueDate),
+          timestampField(cursor.createdAt),
+          referenceField(`families/${familyId}/chores/${cursor.id}`),
+        ]
+      : undefined,
+    // One extra row tells us whether another page exists.
+    limit: limit + 1,
+  };
+}
 
-  const dueDate = asDateOrToday(body.dueDate);
+function parseCreateChoresBody(body: CreateChoresBody) {
   const details =
     typeof body.details === "string" && body.details.trim().length > 0
       ? body.details.trim().slice(0, 2000)
@@ -277,96 +263,179 @@ export async function POST(request: NextRequest) {
     typeof body.assigneeId === "string" && body.assigneeId.trim().length > 0
       ? body.assigneeId.trim()
       : "";
+  const batchReward = readReward(body);
+  if (!batchReward) {
+    return { error: "invalid_coin_value" };
+  }
   const descriptionFromSingle =
     typeof body.description === "string" ? normalizeDescription(body.description) : "";
   const titlesInput = Array.isArray(body.titles) ? body.titles : [];
-  const titlesFromList = titlesInput
-    .filter((entry): entry is string => typeof entry === "string")
-    .map((title) => normalizeDescription(title))
-    .filter((title) => title.length > 0)
-    .slice(0, 100);
-  const titles = descriptionFromSingle ? [descriptionFromSingle] : titlesFromList;
-
-  if (titles.length === 0) {
-    return NextResponse.json({ error: "description_required" }, { status: 400 });
+  // Batch entries are either plain titles or `{ title, coinValue?, difficulty? }`.
+  const choresFromList: (NewChore | null)[] = titlesInput
+    .map((entry) => {
+      if (typeof entry === "string") {
+        return { title: normalizeDescription(entry) };
+      }
+      if (entry && typeof entry === "object" && typeof entry.title === "string") {
+        const reward = readReward(entry);
+        return reward ? { title: normalizeDescription(entry.title), ...reward } : null;
+      }
+      return { title: "" };
+    })
+    .filter((entry) => entry === null || entry.title.length > 0);
+  if (choresFromList.some((entry) => entry === null)) {
+    return { error: "invalid_coin_value" };
   }
+  const newChores = descriptionFromSingle
+    ? [{ title: descriptionFromSingle }]
+    : (choresFromList as NewChore[]);
 
-  if (titles.some((title) => title.length > 160)) {
-    return NextResponse.json({ error: "description_too_long" }, { status: 400 });
+  if (newChores.length === 0) {
+    return { error: "description_required" };
   }
+  if (newChores.some((chore) => chore.title.length > 160)) {
+    return { error: "description_too_long" };
+  }
+  if (newChores.length > MAX_CHORES_PER_REQUEST) {
+    return { error: "too_many_chores" };
+  }
+  return { request: { details, assigneeId, batchReward, newChores } };
+}
 
-  try {
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        const familyId = await getPrimaryFamilyId(session.uid, idToken);
-        if (!familyId) {
-          return { kind: "family_not_found" as const };
-        }
-
-        const resolvedAssigneeName = assigneeId
-          ? await getFamilyMemberName(familyId, assigneeId, idToken)
-          : "Unassigned";
-
-        const now = new Date().toISOString();
-        await Promise.all(
-          titles.map((title) =>
-            createOrReplaceDocument(
-              `families/${familyId}/chores/${randomUUID()}`,
-              {
-                title: stringField(title),
-                status: stringField("Open"),
-                assigneeId: stringField(assigneeId),
-                assigneeName: stringField(resolvedAssigneeName),
-                details: stringField(details),
-                dueDate: stringField(dueDate),
-                coinValue: integerField(10),
-                deleted: boolField(false),
-                createdBy: stringField(session.uid),
-                createdAt: timestampField(now),
-              },
-              idToken,
-            ),
-          ),
-        );
-
-        await Promise.all(
-          titles.map(async (title) => {
-            const key = usageKey(title);
-            await incrementUsageCount(
-              `families/${familyId}/choreUsage/${key}`,
-              title,
-              idToken,
-              "familyCount",
-            );
-            await incrementUsageCount(
-              `choreUsageGlobal/${key}`,
-              title,
-              idToken,
-              "globalCount",
-            );
-          }),
-        );
-
-        return { kind: "ok" as const, created: titles.length };
-      });
-
-    if (data.kind === "family_not_found") {
-      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+export const GET = withSession(
+  { errorTag: "CHORES_LIST_ERROR", failureError: "chores_unavailable" },
+  async ({ request, session, idToken }) => {
+    const params = request.nextUrl.searchParams;
+    const limitParam = params.get("limit");
+    const limit = limitParam === null ? DEFAULT_CHORES_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CHORES_PAGE_SIZE) {
+      return NextResponse.json({ error: "invalid_limit" }, { status: 400 });
+    }
+    const cursorParam = params.get("cursor") ?? "";
+    const cursor = cursorParam ? decodeChoresCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: "invalid_cursor" }, { status: 400 });
+    }
+    const status = params.get("status") ?? "";
+    if (status && toChoreStatus(status) === "Unknown") {
+      return NextResponse.json({ error: "invalid_status" }, { status: 400 });
+    }
+    const dueFrom = params.get("dueFrom") ?? "";
+    const dueTo = params.get("dueTo") ?? "";
+    if ((dueFrom && !isIsoDate(dueFrom)) || (dueTo && !isIsoDate(dueTo))) {
+      return NextResponse.json({ error: "invalid_date_range" }, { status: 400 });
+    }
+    if (dueFrom && dueTo && dueFrom > dueTo) {
+      return NextResponse.json({ error: "invalid_date_range" }, { status: 400 });
+    }
+    const filters: ChoresListFilters = {
+      status,
+      assigneeId: (params.get("assigneeId") ?? "").trim(),
+      dueFrom,
+      dueTo,
+    };
+
+    // Signed-in users without a family see an empty list rather than an error.
+    const familyId = await getActiveFamilyId(session, idToken);
+    if (!familyId) {
+      return NextResponse.json(emptyChoreList(session.uid));
     }
 
-    const response = NextResponse.json({ success: true, created: data.created }, { status: 201 });
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
+    const [docs, memberRole] = await Promise.all([
+      queryDocuments(choresQuery(familyId, filters, cursor, limit), idToken),
+      getMemberRole(familyId, session.uid, idToken),
+    ]);
+    const viewerRole = memberRole ?? "player";
+    const page = docs.slice(0, limit).map((doc) => decodeChoreDoc(doc));
+    const last = page[page.length - 1];
+    const nextCursor =
+      docs.length > limit && last?.createdAt
+        ? encodeChoresCursor({ dueDate: last.dueDate, createdAt: last.createdAt, id: last.id })
+        : "";
+    const chores = page.map((doc) => ({
+      id: doc.id,
+      title: doc.title,
+      status: doc.status,
+      assigneeId: doc.assigneeId,
+      assigneeName: doc.assigneeName,
+      details: doc.details,
+      dueDate: doc.dueDate,
+      coinValue: doc.coinValue,
+      difficulty: doc.difficulty,
+      createdAt: doc.createdAt,
+      submittedBy: doc.submittedBy,
+      submittedAt: doc.submittedAt,
+      reviewedAt: doc.reviewedAt,
+      reviewNote: doc.reviewNote,
+    }));
+
+    return NextResponse.json({ viewerUid: session.uid, viewerRole, chores, nextCursor });
+  },
+);
+
+export const POST = withFamily(
+  {
+    errorTag: "CHORES_CREATE_ERROR",
+    failureError: "create_chores_failed",
+    permission: "chores:create",
+  },
+  async ({ session, familyId, idToken, readJson }) => {
+    const body = await readJson<CreateChoresBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
     }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
-    console.error("[CHORES_CREATE_ERROR]", reason);
-    const mapped = mapCommonFirestoreErrors(reason);
-    if (mapped) {
-      return mapped;
+    const parsed = parseCreateChoresBody(body);
+    if (!parsed.request) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
-    return NextResponse.json({ error: "create_chores_failed" }, { status: 500 });
-  }
-}
+    const { details, assigneeId, batchReward, newChores } = parsed.request;
+
+    const [resolvedAssigneeName, familyDoc] = await Promise.all([
+      assigneeId
+        ? getFamilyMemberName(familyId, assigneeId, idToken)
+        : Promise.resolve("Unassigned"),
+      getDocument(`families/${familyId}`, idToken),
+    ]);
+    const presets = readDifficultyPresets(familyDoc.fields);
+    const dueDate = asDateOrToday(body.dueDate, readFamilyTimeZone(familyDoc.fields));
+    const chores = newChores.map((chore) => ({
+      id: randomUUID(),
+      title: chore.title,
+      ...resolveReward(chore, batchReward, presets),
+    }));
+
+    // Chores and their usage counters land in one commit, so a batch is all or nothing.
+    const now = new Date().toISOString();
+    const choreWrites = chores.map((chore) =>
+      setDocumentWrite(
+        `families/${familyId}/chores/${chore.id}`,
+        {
+          title: stringField(chore.title),
+          status: stringField("Open"),
+          assigneeId: stringField(assigneeId),
+          assigneeName: stringField(resolvedAssigneeName),
+          details: stringField(details),
+          dueDate: stringField(dueDate),
+          coinValue: integerField(chore.coinValue),
+          difficulty: stringField(chore.difficulty),
+          deleted: boolField(false),
+          createdBy: stringField(session.uid),
+          createdAt: timestampField(now),
+        },
+        DOCUMENT_MUST_NOT_EXIST,
+      ),
+    );
+    const usageWrites = Array.from(tallyUsage(chores)).flatMap(([key, tally]) => [
+      // Only the family counter remembers the reward; global usage is shared.
+      usageCountWrite(`families/${familyId}/choreUsage/${key}`, tally, "familyCount", true),
+      usageCountWrite(`choreUsageGlobal/${key}`, tally, "globalCount", false),
+    ]);
+    await commitBatch([...choreWrites, ...usageWrites], idToken);
+
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "chore.created",
+      choreIds: chores.map((chore) => chore.id),
+    });
+    return NextResponse.json({ success: true, created: chores.length }, { status: 201 });
+  },
+);
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { addDays, endSchedule, getSchedule, isIsoDate } from "@/lib/chores/schedules";
+import { localDateInTimeZone, readFamilyTimeZone } from "@/lib/family/timezone";
+import { getDocument } from "@/lib/firestore/rest";
+
+/** Ends the series. Occurrences after `lastDate` (default: the family's today) are dropped. */
+export const DELETE = withFamily<{ scheduleId: string }>(
+  {
+    errorTag: "CHORE_SCHEDULE_END_ERROR",
+    failureError: "end_schedule_failed",
+    permission: "schedules:manage",
+  },
+  async ({ request, params: { scheduleId }, familyId, idToken }) => {
+    if (!scheduleId) {
+      return NextResponse.json({ error: "schedule_id_required" }, { status: 400 });
+    }
+
+    const lastDateParam = request.nextUrl.searchParams.get("lastDate") ?? "";
+    if (lastDateParam && !isIsoDate(lastDateParam)) {
+      return NextResponse.json({ error: "invalid_last_date" }, { status: 400 });
+    }
+
+    const [schedule, familyDoc] = await Promise.all([
+      getSchedule(familyId, scheduleId, idToken),
+      getDocument(`families/${familyId}`, idToken),
+    ]);
+    if (!schedule) {
+      return NextResponse.json({ error: "schedule_not_found" }, { status: 404 });
+    }
+    if (schedule.status === "ended") {
+      return NextResponse.json({ error: "schedule_ended" }, { status: 409 });
+    }
+
+    const lastDate = lastDateParam || localDateInTimeZone(readFamilyTimeZone(familyDoc.fields));
+    // Ending before the series starts leaves it with no occurrences at all.
+    const effectiveLastDate =
+      lastDate < schedule.startDate ? addDays(schedule.startDate, -1) : lastDate;
+    await endSchedule(schedule, effectiveLastDate, idToken);
+    return NextResponse.json({ success: true, endDate: effectiveLastDate });
+  },
+);
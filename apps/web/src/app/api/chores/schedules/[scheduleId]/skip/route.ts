@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { getSchedule, isIsoDate, skipScheduleDate } from "@/lib/chores/schedules";
+
+type SkipScheduleBody = {
+  date?: unknown;
+};
+
+export const POST = withFamily<{ scheduleId: string }>(
+  {
+    errorTag: "CHORE_SCHEDULE_SKIP_ERROR",
+    failureError: "skip_schedule_failed",
+    permission: "schedules:manage",
+  },
+  async ({ params: { scheduleId }, familyId, idToken, readJson }) => {
+    if (!scheduleId) {
+      return NextResponse.json({ error: "schedule_id_required" }, { status: 400 });
+    }
+
+    const body = await readJson<SkipScheduleBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    if (!isIsoDate(body.date)) {
+      return NextResponse.json({ error: "invalid_date" }, { status: 400 });
+    }
+
+    const schedule = await getSchedule(familyId, scheduleId, idToken);
+    if (!schedule) {
+      return NextResponse.json({ error: "schedule_not_found" }, { status: 404 });
+    }
+
+    const skippedDates = await skipScheduleDate(schedule, body.date, idToken);
+    return NextResponse.json({ success: true, skippedDates });
+  },
+);
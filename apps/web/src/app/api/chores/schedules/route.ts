@@ -0,0 +1,128 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import {
+  DEFAULT_CHORE_COIN_VALUE,
+  isChoreDifficulty,
+  isValidCoinValue,
+  readDifficultyPresets,
+} from "@/lib/chores/difficulty";
+import {
+  createSchedule,
+  generateSchedules,
+  getSchedule,
+  isIsoDate,
+  listSchedules,
+  parseRecurrence,
+} from "@/lib/chores/schedules";
+import { getFamilyMemberName, normalizeDescription } from "@/lib/chores/schema";
+import { localDateInTimeZone, readFamilyTimeZone } from "@/lib/family/timezone";
+import { getDocument } from "@/lib/firestore/rest";
+
+type CreateScheduleBody = {
+  title?: unknown;
+  details?: unknown;
+  assigneeId?: unknown;
+  recurrence?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  coinValue?: unknown;
+  difficulty?: unknown;
+};
+
+export const GET = withFamily(
+  { errorTag: "CHORE_SCHEDULES_LIST_ERROR", failureError: "schedules_unavailable" },
+  async ({ familyId, idToken }) =>
+    NextResponse.json({ schedules: await listSchedules(familyId, idToken) }),
+);
+
+export const POST = withFamily(
+  {
+    errorTag: "CHORE_SCHEDULE_CREATE_ERROR",
+    failureError: "create_schedule_failed",
+    permission: "schedules:manage",
+  },
+  async ({ session, familyId, idToken, readJson }) => {
+    const body = await readJson<CreateScheduleBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+
+    const title = typeof body.title === "string" ? normalizeDescription(body.title) : "";
+    if (!title) {
+      return NextResponse.json({ error: "description_required" }, { status: 400 });
+    }
+    if (title.length > 160) {
+      return NextResponse.json({ error: "description_too_long" }, { status: 400 });
+    }
+    const recurrence = parseRecurrence(body.recurrence);
+    if (!recurrence) {
+      return NextResponse.json({ error: "invalid_recurrence" }, { status: 400 });
+    }
+    const requestedStartDate = isIsoDate(body.startDate) ? body.startDate : "";
+    const endDate = isIsoDate(body.endDate) ? body.endDate : "";
+    if (endDate && requestedStartDate && endDate < requestedStartDate) {
+      return NextResponse.json({ error: "invalid_end_date" }, { status: 400 });
+    }
+    if (body.coinValue !== undefined && !isValidCoinValue(body.coinValue)) {
+      return NextResponse.json({ error: "invalid_coin_value" }, { status: 400 });
+    }
+    if (body.difficulty !== undefined && !isChoreDifficulty(body.difficulty)) {
+      return NextResponse.json({ error: "invalid_difficulty" }, { status: 400 });
+    }
+    const details =
+      typeof body.details === "string" ? body.details.trim().slice(0, 2000) : "";
+    const assigneeId = typeof body.assigneeId === "string" ? body.assigneeId.trim() : "";
+
+    const [assigneeName, familyDoc] = await Promise.all([
+      assigneeId
+        ? getFamilyMemberName(familyId, assigneeId, idToken)
+        : Promise.resolve("Unassigned"),
+      getDocument(`families/${familyId}`, idToken),
+    ]);
+    const presets = readDifficultyPresets(familyDoc.fields);
+    const today = localDateInTimeZone(readFamilyTimeZone(familyDoc.fields));
+    const startDate = requestedStartDate || today;
+    if (endDate && endDate < startDate) {
+      return NextResponse.json({ error: "invalid_end_date" }, { status: 400 });
+    }
+    const difficulty =
+      body.coinValue === undefined && isChoreDifficulty(body.difficulty)
+        ? body.difficulty
+        : "";
+    const coinValue = isValidCoinValue(body.coinValue)
+      ? body.coinValue
+      : difficulty
+        ? presets[difficulty]
+        : DEFAULT_CHORE_COIN_VALUE;
+
+    const scheduleId = randomUUID();
+    await createSchedule(
+      familyId,
+      scheduleId,
+      {
+        title,
+        details,
+        assigneeId,
+        assigneeName,
+        coinValue,
+        difficulty,
+        recurrence,
+        startDate,
+        endDate,
+        createdBy: session.uid,
+      },
+      idToken,
+    );
+
+    // Materialize the first few instances right away instead of waiting for the timer.
+    const schedule = await getSchedule(familyId, scheduleId, idToken);
+    const generated = schedule
+      ? await generateSchedules([schedule], today, idToken)
+      : { schedules: 0, created: 0, skipped: 0 };
+    return NextResponse.json(
+      { success: true, schedule, created: generated.created },
+      { status: 201 },
+    );
+  },
+);
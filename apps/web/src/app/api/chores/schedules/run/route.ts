@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { getSchedulerIdToken, isInternalRequest } from "@/lib/auth/internal";
+import {
+  type ChoreSchedule,
+  generateSchedules,
+  listAllActiveSchedules,
+  listSchedules,
+} from "@/lib/chores/schedules";
+import { localDateInTimeZone, readFamilyTimeZone } from "@/lib/family/timezone";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+
+export const dynamic = "force-dynamic";
+
+async function getFamilyToday(familyId: string, idToken: string) {
+  const familyDoc = await getDocument(`families/${familyId}`, idToken);
+  return localDateInTimeZone(readFamilyTimeZone(familyDoc.fields));
+}
+
+async function runForAllFamilies() {
+  const idToken = await getSchedulerIdToken();
+  const schedulesByFamilyId = new Map<string, ChoreSchedule[]>();
+  for (const schedule of await listAllActiveSchedules(idToken)) {
+    const familySchedules = schedulesByFamilyId.get(schedule.familyId) ?? [];
+    familySchedules.push(schedule);
+    schedulesByFamilyId.set(schedule.familyId, familySchedules);
+  }
+
+  // Each family rolls over to a new day at its own local midnight. One family failing, e.g.
+  // because its doc was purged while schedules remain, must not stop the run for the rest.
+  const total = { schedules: 0, created: 0, skipped: 0, failedFamilies: 0 };
+  for (const [familyId, schedules] of schedulesByFamilyId) {
+    try {
+      const familyDoc = await getDocument(`families/${familyId}`, idToken);
+      // Deleted families keep their schedules for a restore but stop generating chores.
+      if (readBoolean(familyDoc.fields, "deleted")) {
+        continue;
+      }
+      const today = localDateInTimeZone(readFamilyTimeZone(familyDoc.fields));
+      const result = await generateSchedules(schedules, today, idToken);
+      total.schedules += result.schedules;
+      total.created += result.created;
+      total.skipped += result.skipped;
+    } catch (error) {
+      if (error instanceof FirestoreNotFoundError) {
+        continue;
+      }
+      const reason =
+        error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+      console.error("[CHORE_SCHEDULER_FAMILY_ERROR]", familyId, reason);
+      total.failedFamilies += 1;
+    }
+  }
+  return total;
+}
+
+const runForActiveFamily = withFamily(
+  {
+    errorTag: "CHORE_SCHEDULE_RUN_ERROR",
+    failureError: "schedule_run_failed",
+    permission: "schedules:manage",
+  },
+  async ({ familyId, idToken }) => {
+    const [today, schedules] = await Promise.all([
+      getFamilyToday(familyId, idToken),
+      listSchedules(familyId, idToken),
+    ]);
+    const result = await generateSchedules(
+      schedules.filter((schedule) => schedule.status === "active"),
+      today,
+      idToken,
+    );
+    return NextResponse.json({ success: true, ...result });
+  },
+);
+
+/**
+ * Materializes upcoming recurring chores. The ws process calls this on a timer with the
+ * internal secret to cover every family; admins can call it for their own family.
+ */
+export async function POST(request: NextRequest) {
+  if (isInternalRequest(request)) {
+    try {
+      const result = await runForAllFamilies();
+      return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+      const reason =
+        error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+      console.error("[CHORE_SCHEDULER_RUN_ERROR]", reason);
+      return NextResponse.json({ error: "schedule_run_failed" }, { status: 500 });
+    }
+  }
+
+  return runForActiveFamily(request);
+}
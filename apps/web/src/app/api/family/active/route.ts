@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import { listUserFamilies, pickActiveFamilyId } from "@/lib/family/membership";
+
+type SwitchFamilyBody = {
+  familyId?: unknown;
+};
+
+export const dynamic = "force-dynamic";
+
+/** The family switcher: every family the user belongs to and the one requests use. */
+export const GET = withSession(
+  { errorTag: "ACTIVE_FAMILY_ERROR", failureError: "families_unavailable" },
+  async ({ session, idToken }) => {
+    const families = await listUserFamilies(session, idToken);
+    const activeFamilyId = pickActiveFamilyId(
+      families.filter((family) => family.status === "active").map((family) => family.id),
+      session.activeFamilyId,
+    );
+    return NextResponse.json({ activeFamilyId, families });
+  },
+);
+
+/** Selects the family later requests operate on; it is kept in the session cookie. */
+export const PUT = withSession(
+  { errorTag: "ACTIVE_FAMILY_UPDATE_ERROR", failureError: "switch_family_failed" },
+  async ({ session, idToken, readJson, updateSession }) => {
+    const body = await readJson<SwitchFamilyBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const familyId = typeof body.familyId === "string" ? body.familyId.trim() : "";
+    if (!familyId) {
+      return NextResponse.json({ error: "family_id_required" }, { status: 400 });
+    }
+
+    const families = await listUserFamilies(session, idToken);
+    const family = families.find((candidate) => candidate.id === familyId);
+    if (!family) {
+      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+    }
+
+    updateSession({ activeFamilyId: familyId });
+    return NextResponse.json({ success: true, activeFamilyId: familyId, family });
+  },
+);
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { familyDevicesPath } from "@/lib/auth/family-device";
+import {
+  boolField,
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+/** Unpairs a family tablet; its cookie stops working for child sign-in immediately. */
+export const DELETE = withFamily<{ deviceId: string }>(
+  {
+    errorTag: "FAMILY_DEVICE_REVOKE_ERROR",
+    failureError: "revoke_device_failed",
+    notFoundError: "device_not_found",
+    permission: "members:manage",
+  },
+  async ({ params: { deviceId }, familyId, idToken }) => {
+    await commitBatch(
+      [
+        updateDocumentWrite(
+          `${familyDevicesPath(familyId)}/${deviceId}`,
+          { revoked: boolField(true), revokedAt: timestampField(new Date().toISOString()) },
+          ["revoked", "revokedAt"],
+          DOCUMENT_MUST_EXIST,
+        ),
+      ],
+      idToken,
+    );
+    return NextResponse.json({ success: true, deviceId });
+  },
+);
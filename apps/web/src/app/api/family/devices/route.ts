@@ -0,0 +1,52 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { readSessionClient } from "@/lib/auth/session-registry";
+import { familyDevicesPath, setFamilyDeviceCookie } from "@/lib/auth/family-device";
+import {
+  boolField,
+  createOrReplaceDocument,
+  stringField,
+  timestampField,
+} from "@/lib/firestore/rest";
+
+type PairDeviceBody = {
+  label?: unknown;
+};
+
+/**
+ * Turns the admin's current browser into a shared family tablet. The device cookie outlives
+ * the admin's own session, so children can pick their profile after the admin signs out.
+ */
+export const POST = withFamily(
+  {
+    errorTag: "FAMILY_DEVICE_PAIR_ERROR",
+    failureError: "pair_device_failed",
+    permission: "members:manage",
+  },
+  async ({ request, session, familyId, idToken, readJson }) => {
+    const body = (await readJson<PairDeviceBody>()) ?? {};
+    const label =
+      typeof body.label === "string" && body.label.trim()
+        ? body.label.trim().slice(0, 60)
+        : "Family tablet";
+
+    const deviceId = randomUUID();
+    const now = new Date().toISOString();
+    await createOrReplaceDocument(
+      `${familyDevicesPath(familyId)}/${deviceId}`,
+      {
+        label: stringField(label),
+        userAgent: stringField(readSessionClient(request).userAgent),
+        createdBy: stringField(session.uid),
+        createdAt: timestampField(now),
+        revoked: boolField(false),
+      },
+      idToken,
+    );
+
+    const response = NextResponse.json({ deviceId, label }, { status: 201 });
+    setFamilyDeviceCookie(response, { familyId, deviceId });
+    return response;
+  },
+);
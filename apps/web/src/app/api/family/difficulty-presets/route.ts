@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import {
+  CHORE_DIFFICULTIES,
+  type DifficultyPresets,
+  difficultyPresetsField,
+  isValidCoinValue,
+  readDifficultyPresets,
+} from "@/lib/chores/difficulty";
+import { getDocument, patchDocument, timestampField } from "@/lib/firestore/rest";
+
+type UpdatePresetsBody = Partial<Record<keyof DifficultyPresets, unknown>>;
+
+export const GET = withFamily(
+  { errorTag: "DIFFICULTY_PRESETS_ERROR", failureError: "difficulty_presets_unavailable" },
+  async ({ familyId, idToken }) => {
+    const familyDoc = await getDocument(`families/${familyId}`, idToken);
+    return NextResponse.json({ presets: readDifficultyPresets(familyDoc.fields) });
+  },
+);
+
+export const PUT = withFamily(
+  {
+    errorTag: "DIFFICULTY_PRESETS_UPDATE_ERROR",
+    failureError: "update_difficulty_presets_failed",
+    permission: "family:settings",
+  },
+  async ({ familyId, idToken, readJson }) => {
+    const body = await readJson<UpdatePresetsBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+
+    // Tiers left out of the body keep their current value.
+    const providedDifficulties = CHORE_DIFFICULTIES.filter(
+      (difficulty) => body[difficulty] !== undefined,
+    );
+    if (providedDifficulties.length === 0) {
+      return NextResponse.json({ error: "no_changes" }, { status: 400 });
+    }
+    if (providedDifficulties.some((difficulty) => !isValidCoinValue(body[difficulty]))) {
+      return NextResponse.json({ error: "invalid_coin_value" }, { status: 400 });
+    }
+
+    const familyDoc = await getDocument(`families/${familyId}`, idToken);
+    const presets = readDifficultyPresets(familyDoc.fields);
+    for (const difficulty of providedDifficulties) {
+      presets[difficulty] = body[difficulty] as number;
+    }
+
+    await patchDocument(
+      `families/${familyId}`,
+      {
+        difficultyPresets: difficultyPresetsField(presets),
+        updatedAt: timestampField(new Date().toISOString()),
+      },
+      idToken,
+      ["difficultyPresets", "updatedAt"],
+    );
+    return NextResponse.json({ success: true, presets });
+  },
+);
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { revokeInviteCode } from "@/lib/family/invite-codes";
+
+/** Revokes an invite link or join code; members who already joined through it stay. */
+export const DELETE = withFamily<{ inviteId: string }>(
+  {
+    errorTag: "REVOKE_FAMILY_INVITE_ERROR",
+    failureError: "revoke_invite_failed",
+    permission: "members:manage",
+  },
+  async ({ params: { inviteId }, familyId, idToken }) => {
+    if (!(await revokeInviteCode(familyId, inviteId, idToken))) {
+      return NextResponse.json({ error: "invite_not_found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  },
+);
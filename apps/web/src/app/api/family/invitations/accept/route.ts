@@ -1,164 +1,100 @@
-import { NextRequest, NextResponse } from "next/server";
-import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
-import { getSessionFromRequest } from "@/lib/auth/request-session";
-import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import {
+  getUserFamilyIds,
+  isFamilyAvailable,
+  linkUserFamilyWrite,
+  pickActiveFamilyId,
+} from "@/lib/family/membership";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
 import {
   boolField,
-  createOrReplaceDocument,
+  commitBatch,
   findFirstFamilyIdByMemberEmail,
   getDocument,
-  patchDocument,
   readBoolean,
   readString,
-  readStringArray,
   readTimestamp,
-  stringArrayField,
+  setDocumentWrite,
   stringField,
   timestampField,
 } from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
 
-function jsonUnauthorized() {
-  return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-}
-
-function jsonReauthRequired() {
-  return NextResponse.json(
-    {
-      error: "reauth_required",
-      message: "Please sign out and sign in again to refresh your session.",
-    },
-    { status: 401 },
-  );
-}
-
-function jsonFirestoreForbidden() {
-  return NextResponse.json(
-    {
-      error: "firestore_forbidden",
-      message:
-        "Authenticated user does not have access to Firestore documents under current rules.",
-    },
-    { status: 403 },
-  );
-}
-
-async function relinkUserPrimaryFamily(uid: string, familyId: string, idToken: string) {
-  const now = new Date().toISOString();
-  await patchDocument(
-    `users/${uid}`,
-    {
-      uid: stringField(uid),
-      familyIds: stringArrayField([familyId]),
-      lastFamilyUpdateAt: timestampField(now),
-    },
-    idToken,
-    ["familyIds", "lastFamilyUpdateAt", "uid"],
-  );
-}
-
-export async function POST(request: NextRequest) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return jsonUnauthorized();
-  }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
-  }
-
-  const normalizedEmail = session.email.trim().toLowerCase();
-  if (!normalizedEmail) {
-    return NextResponse.json({ error: "session_email_missing" }, { status: 400 });
-  }
-
-  try {
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        let familyId = "";
-        try {
-          const userDoc = await getDocument(`users/${session.uid}`, idToken);
-          familyId = readStringArray(userDoc.fields, "familyIds")[0] ?? "";
-        } catch (error) {
-          const reason = error instanceof Error ? error.message : "";
-          if (!reason.includes("FIRESTORE_HTTP_404")) {
-            throw error;
-          }
-        }
-
-        if (!familyId) {
-          try {
-            const inviteLookupDoc = await getDocument(`inviteLookup/${normalizedEmail}`, idToken);
-            const status = readString(inviteLookupDoc.fields, "status");
-            const candidateFamilyId = readString(inviteLookupDoc.fields, "familyId");
-            if ((status === "invited" || status === "claimed") && candidateFamilyId) {
-              familyId = candidateFamilyId;
-            }
-          } catch (error) {
-            const reason = error instanceof Error ? error.message : "";
-            if (!reason.includes("FIRESTORE_HTTP_404")) {
-              throw error;
-            }
-          }
-        }
-
-        if (!familyId) {
-          familyId = await findFirstFamilyIdByMemberEmail(normalizedEmail, idToken);
-        }
-        if (!familyId) {
-          return { kind: "invite_not_found" as const };
-        }
-
-        const inviteDoc = await getDocument(`families/${familyId}/members/${normalizedEmail}`, idToken);
-        if (readBoolean(inviteDoc.fields, "deleted")) {
-          return { kind: "invite_not_found" as const };
-        }
-
-        const now = new Date().toISOString();
-        const inviteRole = readString(inviteDoc.fields, "role") === "admin" ? "admin" : "player";
-        const inviteName =
-          readString(inviteDoc.fields, "name") || session.name || "Family member";
-        const inviteCreatedAt = readTimestamp(inviteDoc.fields, "createdAt") || now;
-
-        await createOrReplaceDocument(
-          `families/${familyId}/members/${session.uid}`,
-          {
-            name: stringField(inviteName),
-            email: stringField(normalizedEmail),
-            role: stringField(inviteRole),
-            status: stringField("active"),
-            deleted: boolField(false),
-            uid: stringField(session.uid),
-            createdAt: timestampField(inviteCreatedAt),
-            acceptedInviteAt: timestampField(now),
-          },
-          idToken,
-        );
-
-        await relinkUserPrimaryFamily(session.uid, familyId, idToken);
-        return { kind: "ok" as const, familyId };
-      });
+export const POST = withSession(
+  {
+    errorTag: "ACCEPT_FAMILY_INVITE_ERROR",
+    failureError: "accept_invite_failed",
+    notFoundError: "invite_not_found",
+  },
+  async ({ session, idToken, updateSession }) => {
+    const normalizedEmail = session.email.trim().toLowerCase();
+    if (!normalizedEmail) {
+      return NextResponse.json({ error: "session_email_missing" }, { status: 400 });
+    }
 
-    if (data.kind === "invite_not_found") {
-      return NextResponse.json({ error: "invite_not_found" }, { status: 404 });
+    // The invite lookup names the inviting family, which need not be the active one now
+    // that users can belong to several families.
+    let familyId = "";
+    try {
+      const inviteLookupDoc = await getDocument(`inviteLookup/${normalizedEmail}`, idToken);
+      const status = readString(inviteLookupDoc.fields, "status");
+      const candidateFamilyId = readString(inviteLookupDoc.fields, "familyId");
+      if ((status === "invited" || status === "claimed") && candidateFamilyId) {
+        familyId = candidateFamilyId;
+      }
+    } catch (error) {
+      if (!(error instanceof FirestoreNotFoundError)) {
+        throw error;
+      }
     }
 
-    const response = NextResponse.json({ success: true, familyId: data.familyId });
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
+    if (!familyId) {
+      const familyIds = await getUserFamilyIds(session.uid, idToken);
+      familyId = pickActiveFamilyId(familyIds, session.activeFamilyId);
     }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
-    console.error("[ACCEPT_FAMILY_INVITE_ERROR]", reason);
-    if (reason.includes("FIRESTORE_HTTP_401")) {
-      return jsonReauthRequired();
+    if (!familyId) {
+      familyId = await findFirstFamilyIdByMemberEmail(normalizedEmail, idToken);
     }
-    if (reason.includes("FIREBASE_REFRESH_FAILED")) {
-      return jsonReauthRequired();
+    if (!familyId || !(await isFamilyAvailable(familyId, idToken))) {
+      return NextResponse.json({ error: "invite_not_found" }, { status: 404 });
     }
-    if (reason.includes("FIRESTORE_HTTP_403")) {
-      return jsonFirestoreForbidden();
+
+    const inviteDoc = await getDocument(`families/${familyId}/members/${normalizedEmail}`, idToken);
+    if (readBoolean(inviteDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "invite_not_found" }, { status: 404 });
     }
-    return NextResponse.json({ error: "accept_invite_failed" }, { status: 500 });
-  }
-}
+
+    const now = new Date().toISOString();
+    const inviteRole = readString(inviteDoc.fields, "role") === "admin" ? "admin" : "player";
+    const inviteName =
+      readString(inviteDoc.fields, "name") || session.name || "Family member";
+    const inviteCreatedAt = readTimestamp(inviteDoc.fields, "createdAt") || now;
+
+    // The active member doc and the user's family link are committed together so a
+    // half-accepted invite cannot leave the user pointing at a family they are not in.
+    await commitBatch(
+      [
+        setDocumentWrite(`families/${familyId}/members/${session.uid}`, {
+          name: stringField(inviteName),
+          email: stringField(normalizedEmail),
+          role: stringField(inviteRole),
+          status: stringField("active"),
+          deleted: boolField(false),
+          uid: stringField(session.uid),
+          createdAt: timestampField(inviteCreatedAt),
+          acceptedInviteAt: timestampField(now),
+        }),
+        linkUserFamilyWrite(session.uid, familyId, now),
+      ],
+      idToken,
+    );
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "member.joined",
+      memberId: session.uid,
+    });
+    // Switch to the family that was just joined.
+    updateSession({ activeFamilyId: familyId });
+    return NextResponse.json({ success: true, familyId });
+  },
+);
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import {
+  normalizeJoinCode,
+  normalizeLinkToken,
+  redeemInviteCode,
+} from "@/lib/family/invite-codes";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+type RedeemInviteBody = {
+  token?: unknown;
+  code?: unknown;
+};
+
+/**
+ * Joins a family through an invite link (`token`) or a join code (`code`). Unlike email
+ * invites from `/api/family/invitations/accept`, any signed-in account can redeem them.
+ */
+export const POST = withSession(
+  { errorTag: "REDEEM_FAMILY_INVITE_ERROR", failureError: "redeem_invite_failed" },
+  async ({ session, idToken, readJson, updateSession }) => {
+    const body = await readJson<RedeemInviteBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const secret =
+      body.token !== undefined ? normalizeLinkToken(body.token) : normalizeJoinCode(body.code);
+    if (!secret) {
+      return NextResponse.json({ error: "invite_required" }, { status: 400 });
+    }
+
+    const result = await redeemInviteCode(secret, session, idToken);
+    if (result.kind === "invalid_invite") {
+      return NextResponse.json({ error: "invalid_invite" }, { status: 404 });
+    }
+    if (
+      result.kind === "invite_revoked" ||
+      result.kind === "invite_expired" ||
+      result.kind === "invite_used_up"
+    ) {
+      return NextResponse.json({ error: result.kind }, { status: 410 });
+    }
+    if (result.kind === "removed_from_family") {
+      return NextResponse.json({ error: "removed_from_family" }, { status: 403 });
+    }
+
+    // Switch to the family that was just joined.
+    updateSession({ activeFamilyId: result.familyId });
+    if (result.kind === "already_member") {
+      return NextResponse.json({ success: true, familyId: result.familyId, alreadyMember: true });
+    }
+    await publishFamilyEvent(result.familyId, session.uid, {
+      type: "member.joined",
+      memberId: session.uid,
+    });
+    return NextResponse.json({ success: true, familyId: result.familyId, role: result.role });
+  },
+);
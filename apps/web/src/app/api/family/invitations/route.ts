@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import {
+  createInviteCode,
+  INVITE_CODE_DEFAULT_HOURS,
+  INVITE_CODE_DEFAULT_USES,
+  INVITE_CODE_MAX_HOURS,
+  INVITE_CODE_MAX_USES,
+  listInviteCodes,
+} from "@/lib/family/invite-codes";
+
+type CreateInviteBody = {
+  kind?: unknown;
+  role?: unknown;
+  expiresInHours?: unknown;
+  maxUses?: unknown;
+};
+
+function readBoundedInteger(value: unknown, fallback: number, max: number) {
+  if (value === undefined) {
+    return fallback;
+  }
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= max
+    ? value
+    : null;
+}
+
+export const dynamic = "force-dynamic";
+
+/** Invite links and join codes of the active family, including expired and revoked ones. */
+export const GET = withFamily(
+  {
+    errorTag: "LIST_FAMILY_INVITES_ERROR",
+    failureError: "invites_unavailable",
+    permission: "members:manage",
+  },
+  async ({ familyId, idToken }) => {
+    const invites = await listInviteCodes(familyId, idToken);
+    return NextResponse.json({ invites });
+  },
+);
+
+/**
+ * Creates an invite link (`kind: "link"`) or a short join code (`kind: "code"`). The secret
+ * is only returned here; afterwards the invite is listed by id.
+ */
+export const POST = withFamily(
+  {
+    errorTag: "CREATE_FAMILY_INVITE_ERROR",
+    failureError: "create_invite_failed",
+    permission: "members:manage",
+  },
+  async ({ session, familyId, idToken, readJson }) => {
+    const body = await readJson<CreateInviteBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    if (body.kind !== "link" && body.kind !== "code") {
+      return NextResponse.json({ error: "invalid_invite_kind" }, { status: 400 });
+    }
+    const role = body.role ?? "player";
+    if (role !== "admin" && role !== "player") {
+      return NextResponse.json({ error: "invalid_role" }, { status: 400 });
+    }
+    const expiresInHours = readBoundedInteger(
+      body.expiresInHours,
+      INVITE_CODE_DEFAULT_HOURS,
+      INVITE_CODE_MAX_HOURS,
+    );
+    if (expiresInHours === null) {
+      return NextResponse.json(
+        { error: `expires_in_hours_must_be_between_1_and_${INVITE_CODE_MAX_HOURS}` },
+        { status: 400 },
+      );
+    }
+    const maxUses = readBoundedInteger(
+      body.maxUses,
+      INVITE_CODE_DEFAULT_USES,
+      INVITE_CODE_MAX_USES,
+    );
+    if (maxUses === null) {
+      return NextResponse.json(
+        { error: `max_uses_must_be_between_1_and_${INVITE_CODE_MAX_USES}` },
+        { status: 400 },
+      );
+    }
+
+    const kind = body.kind;
+    const { id, secret, expiresAt } = await createInviteCode(
+      familyId,
+      { kind, role, expiresInHours, maxUses },
+      session.uid,
+      idToken,
+    );
+    return NextResponse.json(
+      {
+        id,
+        kind,
+        role,
+        maxUses,
+        expiresAt,
+        ...(kind === "link" ? { token: secret } : { code: secret }),
+      },
+      { status: 201 },
+    );
+  },
+);
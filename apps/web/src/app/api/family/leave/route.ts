@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { unlinkUserFamilyWrite } from "@/lib/family/membership";
+import { getFamilyOwnerUid } from "@/lib/family/ownership";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  getDocument,
+  readBoolean,
+  readString,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+import { publishFamilyEvent, removeUserFromFamilyRoom } from "@/lib/realtime/publish";
+
+async function readOptionalDocument(path: string, idToken: string) {
+  try {
+    return await getDocument(path, idToken);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Leaves the active family. The member doc is tombstoned like an admin removal, and the
+ * email invite it was claimed from is closed so signing in again does not re-link the family.
+ * The owner has to transfer ownership first.
+ */
+export const POST = withFamily(
+  { errorTag: "LEAVE_FAMILY_ERROR", failureError: "leave_family_failed" },
+  async ({ session, familyId, idToken, member }) => {
+    if (readString(member.fields, "accountType") === "child") {
+      return NextResponse.json({ error: "child_profiles_cannot_leave" }, { status: 400 });
+    }
+    if ((await getFamilyOwnerUid(familyId, idToken)) === session.uid) {
+      return NextResponse.json({ error: "owner_must_transfer_ownership" }, { status: 409 });
+    }
+
+    const email = session.email.trim().toLowerCase();
+    const [emailInviteDoc, inviteLookupDoc] = email
+      ? await Promise.all([
+          readOptionalDocument(`families/${familyId}/members/${email}`, idToken),
+          readOptionalDocument(`inviteLookup/${email}`, idToken),
+        ])
+      : [null, null];
+
+    const now = new Date().toISOString();
+    const tombstone = {
+      deleted: boolField(true),
+      deletedAt: timestampField(now),
+      leftAt: timestampField(now),
+    };
+    await commitBatch(
+      [
+        updateDocumentWrite(
+          `families/${familyId}/members/${session.uid}`,
+          tombstone,
+          undefined,
+          DOCUMENT_MUST_EXIST,
+        ),
+        ...(emailInviteDoc && !readBoolean(emailInviteDoc.fields, "deleted")
+          ? [
+              updateDocumentWrite(
+                `families/${familyId}/members/${email}`,
+                tombstone,
+                undefined,
+                DOCUMENT_MUST_EXIST,
+              ),
+            ]
+          : []),
+        ...(inviteLookupDoc && readString(inviteLookupDoc.fields, "familyId") === familyId
+          ? [
+              updateDocumentWrite(`inviteLookup/${email}`, {
+                status: stringField("left"),
+                updatedAt: timestampField(now),
+              }),
+            ]
+          : []),
+        unlinkUserFamilyWrite(session.uid, familyId, now),
+      ],
+      idToken,
+    );
+    await publishFamilyEvent(familyId, session.uid, { type: "member.left", memberId: session.uid });
+    await removeUserFromFamilyRoom(familyId, session.uid);
+    return NextResponse.json({ success: true, familyId });
+  },
+);
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withFamily } from "@/lib/api/route";
+import { roleHasPermission } from "@/lib/family/permissions";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+import { equipItem, getAvatar, isAvatarSlot } from "@/lib/shop/avatar";
+
+type EquipAvatarBody = {
+  slot?: unknown;
+  itemId?: unknown;
+};
+
+export const GET = withFamily<{ memberId: string }>(
+  { errorTag: "AVATAR_ERROR", failureError: "avatar_unavailable" },
+  async ({ params: { memberId }, familyId, idToken }) => {
+    if (!memberId) {
+      return NextResponse.json({ error: "member_id_required" }, { status: 400 });
+    }
+    return NextResponse.json({ memberId, avatar: await getAvatar(familyId, memberId, idToken) });
+  },
+);
+
+export const PUT = withFamily<{ memberId: string }>(
+  {
+    errorTag: "AVATAR_EQUIP_ERROR",
+    failureError: "avatar_equip_failed",
+    notFoundError: "member_not_found",
+  },
+  async ({ params: { memberId }, session, familyId, member, idToken, readJson }) => {
+    if (!memberId) {
+      return NextResponse.json({ error: "member_id_required" }, { status: 400 });
+    }
+
+    const body = await readJson<EquipAvatarBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const slot = typeof body.slot === "string" ? body.slot.trim() : "";
+    if (!isAvatarSlot(slot)) {
+      return NextResponse.json({ error: "invalid_slot" }, { status: 400 });
+    }
+    // A null or empty item id unequips the slot.
+    if (body.itemId !== undefined && body.itemId !== null && typeof body.itemId !== "string") {
+      return NextResponse.json({ error: "invalid_item_id" }, { status: 400 });
+    }
+    const itemId = typeof body.itemId === "string" ? body.itemId.trim() || null : null;
+
+    if (memberId !== session.uid && !roleHasPermission(member.role, "members:act_for")) {
+      return jsonNotAllowed();
+    }
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const result = await equipItem({ familyId, memberId, slot, itemId, idToken });
+    if (result.kind === "item_not_found") {
+      return NextResponse.json({ error: "item_not_found" }, { status: 404 });
+    }
+    if (result.kind === "wrong_slot") {
+      return NextResponse.json({ error: "wrong_slot" }, { status: 400 });
+    }
+    if (result.kind === "not_owned") {
+      return NextResponse.json({ error: "not_owned" }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, memberId, avatar: result.avatar });
+  },
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { createPairingCode, PAIRING_CODE_TTL_SECONDS } from "@/lib/auth/child-accounts";
+import { getDocument, readBoolean, readString } from "@/lib/firestore/rest";
+
+/** Issues a short-lived code (shown as text or a QR code) that signs the child in once. */
+export const POST = withFamily<{ memberId: string }>(
+  {
+    errorTag: "CHILD_PAIRING_CODE_ERROR",
+    failureError: "pairing_code_failed",
+    notFoundError: "member_not_found",
+    permission: "members:manage",
+  },
+  async ({ params: { memberId }, session, familyId, idToken }) => {
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+    if (readString(memberDoc.fields, "accountType") !== "child") {
+      return NextResponse.json({ error: "not_a_child_profile" }, { status: 400 });
+    }
+
+    const { code, expiresAt } = await createPairingCode(familyId, memberId, session.uid, idToken);
+    return NextResponse.json(
+      { code, expiresAt, expiresInSeconds: PAIRING_CODE_TTL_SECONDS },
+      { status: 201 },
+    );
+  },
+);
@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import {
+  childLoginWrite,
+  createChildAccount,
+  deleteChildAccount,
+  hashPin,
+  isValidPin,
+  linkChildAccountToFamily,
+  resetPinWrite,
+} from "@/lib/auth/child-accounts";
+import { walletPath } from "@/lib/family/wallet";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  fieldFilter,
+  getDocument,
+  listDocumentsPage,
+  queryDocuments,
+  readBoolean,
+  readString,
+  readTimestamp,
+  setDocumentWrite,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+import { inventoryPath } from "@/lib/shop/inventory";
+
+type SetPinBody = {
+  pin?: unknown;
+};
+
+async function documentExists(path: string, idToken: string) {
+  try {
+    await getDocument(path, idToken);
+    return true;
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wallets, inventory and chore assignments are keyed by member id, so they would not follow
+ * the profile to its new uid-keyed doc. Avatars only hold owned items and are covered by the
+ * inventory check.
+ */
+async function memberHasHistory(familyId: string, memberId: string, idToken: string) {
+  const [hasWallet, inventory, assignedChores] = await Promise.all([
+    documentExists(walletPath(familyId, memberId), idToken),
+    listDocumentsPage(inventoryPath(familyId, memberId), idToken, { pageSize: 1 }),
+    queryDocuments(
+      {
+        parent: `families/${familyId}`,
+        collection: "chores",
+        where: fieldFilter("assigneeId", "EQUAL", stringField(memberId)),
+        limit: 1,
+      },
+      idToken,
+    ),
+  ]);
+  return hasWallet || inventory.documents.length > 0 || assignedChores.length > 0;
+}
+
+/**
+ * Sets a child's sign-in PIN. The first PIN for an email-less member turns it into a child
+ * profile: a Firebase account is created and the member moves to a doc keyed by its uid,
+ * the same way accepted email invites do. Members that already earned coins, bought items or
+ * were assigned chores cannot be converted, since that history would stay with the old id.
+ */
+export const PUT = withFamily<{ memberId: string }>(
+  {
+    errorTag: "CHILD_PIN_ERROR",
+    failureError: "set_pin_failed",
+    notFoundError: "member_not_found",
+    permission: "members:manage",
+  },
+  async ({ params: { memberId }, session, familyId, idToken, readJson }) => {
+    const body = await readJson<SetPinBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    if (!isValidPin(body.pin)) {
+      return NextResponse.json({ error: "pin_must_be_4_to_6_digits" }, { status: 400 });
+    }
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const pinHash = await hashPin(body.pin);
+    if (readString(memberDoc.fields, "accountType") === "child") {
+      await commitBatch([resetPinWrite(familyId, memberId, pinHash, now)], idToken);
+      return NextResponse.json({ success: true, memberId });
+    }
+    if (readString(memberDoc.fields, "uid") || readString(memberDoc.fields, "email")) {
+      return NextResponse.json({ error: "member_signs_in_with_google" }, { status: 400 });
+    }
+
+    if (await memberHasHistory(familyId, memberId, idToken)) {
+      return NextResponse.json({ error: "member_has_history" }, { status: 409 });
+    }
+
+    const name = readString(memberDoc.fields, "name") || "Player";
+    const account = await createChildAccount();
+    try {
+      await linkChildAccountToFamily(account.localId, familyId, account.idToken);
+      await commitBatch(
+        [
+          setDocumentWrite(`families/${familyId}/members/${account.localId}`, {
+            name: stringField(name),
+            email: stringField(""),
+            role: stringField("player"),
+            status: stringField("active"),
+            accountType: stringField("child"),
+            deleted: boolField(false),
+            uid: stringField(account.localId),
+            createdBy: stringField(readString(memberDoc.fields, "createdBy") || session.uid),
+            createdAt: timestampField(readTimestamp(memberDoc.fields, "createdAt") || now),
+          }),
+          childLoginWrite(
+            familyId,
+            account.localId,
+            { name, accountKey: account.accountKey, pinHash },
+            now,
+          ),
+          updateDocumentWrite(
+            `families/${familyId}/members/${memberId}`,
+            {
+              deleted: boolField(true),
+              deletedAt: timestampField(now),
+              replacedBy: stringField(account.localId),
+            },
+            ["deleted", "deletedAt", "replacedBy"],
+            DOCUMENT_MUST_EXIST,
+          ),
+        ],
+        idToken,
+      );
+    } catch (error) {
+      await deleteChildAccount(account.idToken);
+      throw error;
+    }
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "member.joined",
+      memberId: account.localId,
+    });
+    return NextResponse.json({ success: true, memberId: account.localId }, { status: 201 });
+  },
+);
@@ -1,149 +1,204 @@
-import { NextRequest, NextResponse } from "next/server";
-import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
-import { getSessionFromRequest } from "@/lib/auth/request-session";
-import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { childLoginsPath } from "@/lib/auth/child-accounts";
+import { revokeMemberSessionsWrite } from "@/lib/auth/session-registry";
+import { getFamilyOwnerUid, listActiveAdminIds } from "@/lib/family/ownership";
+import type { MemberRole } from "@/lib/family/permissions";
+import { FirestoreNotFoundError, FirestorePermissionDeniedError } from "@/lib/firestore/errors";
 import {
   boolField,
-  createOrReplaceDocument,
+  commitBatch,
+  deleteDocumentWrite,
+  DOCUMENT_MUST_EXIST,
+  type FirestoreValue,
   getDocument,
-  patchDocument,
+  readBoolean,
   stringField,
   readString,
-  readStringArray,
   timestampField,
+  updateDocumentWrite,
 } from "@/lib/firestore/rest";
+import { publishFamilyEvent, removeUserFromFamilyRoom } from "@/lib/realtime/publish";
 
-function jsonUnauthorized() {
-  return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-}
-
-function jsonReauthRequired() {
-  return NextResponse.json(
-    {
-      error: "reauth_required",
-      message: "Please sign out and sign in again to refresh your session.",
-    },
-    { status: 401 },
-  );
-}
-
-function jsonFirestoreForbidden() {
-  return NextResponse.json(
-    {
-      error: "firestore_forbidden",
-      message:
-        "Authenticated user does not have access to Firestore documents under current rules.",
-    },
-    { status: 403 },
-  );
-}
-
-async function getPrimaryFamilyId(uid: string, idToken: string) {
-  const userDoc = await getDocument(`users/${uid}`, idToken);
-  return readStringArray(userDoc.fields, "familyIds")[0] ?? "";
-}
-
-export async function DELETE(
-  request: NextRequest,
-  context: { params: Promise<{ memberId: string }> },
-) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return jsonUnauthorized();
-  }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
-  }
-
-  const { memberId } = await context.params;
-  if (!memberId) {
-    return NextResponse.json({ error: "member_id_required" }, { status: 400 });
-  }
-
+async function readInviteLookup(email: string, idToken: string) {
   try {
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        const familyId = await getPrimaryFamilyId(session.uid, idToken);
-        if (!familyId) {
-          return { kind: "family_not_found" as const };
-        }
-
-        const requesterMemberDoc = await getDocument(
-          `families/${familyId}/members/${session.uid}`,
-          idToken,
-        );
-        const requesterRole = readString(requesterMemberDoc.fields, "role");
-        if (requesterRole !== "admin") {
-          return { kind: "not_allowed" as const };
-        }
-
-        const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
-        const memberUid = readString(memberDoc.fields, "uid");
-        const memberEmail = readString(memberDoc.fields, "email").trim().toLowerCase();
-        if (memberId === session.uid || memberUid === session.uid) {
-          return { kind: "cannot_remove_self" as const };
-        }
+    return await getDocument(`inviteLookup/${email}`, idToken);
+  } catch (error) {
+    // Admins can only read lookups that point at a family they administer.
+    if (
+      error instanceof FirestoreNotFoundError ||
+      error instanceof FirestorePermissionDeniedError
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
 
-        const now = new Date().toISOString();
-        await patchDocument(
-          `families/${familyId}/members/${memberId}`,
-          {
-            deleted: boolField(true),
-            deletedAt: timestampField(now),
-          },
-          idToken,
-          ["deleted", "deletedAt"],
-        );
-        if (memberEmail) {
-          await createOrReplaceDocument(
-            `inviteLookup/${memberEmail}`,
-            {
-              email: stringField(memberEmail),
-              familyId: stringField(familyId),
-              status: stringField("revoked"),
-              updatedAt: timestampField(now),
-            },
-            idToken,
-          );
-        }
-        return { kind: "ok" as const };
-      });
+type UpdateMemberBody = {
+  name?: unknown;
+  role?: unknown;
+};
 
-    if (data.kind === "family_not_found") {
-      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+/**
+ * Renames a member or changes their role. Demotions that would leave no signed-in admin are
+ * refused, and the owner has to transfer ownership before they can be demoted.
+ */
+export const PATCH = withFamily<{ memberId: string }>(
+  {
+    errorTag: "UPDATE_FAMILY_MEMBER_ERROR",
+    failureError: "update_member_failed",
+    notFoundError: "member_not_found",
+    permission: "members:manage",
+  },
+  async ({ params: { memberId }, session, familyId, idToken, readJson }) => {
+    const body = await readJson<UpdateMemberBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
     }
-    if (data.kind === "cannot_remove_self") {
-      return NextResponse.json({ error: "cannot_remove_self" }, { status: 400 });
+    const name = typeof body.name === "string" ? body.name.trim() : undefined;
+    if (name !== undefined && (name.length < 2 || name.length > 80)) {
+      return NextResponse.json(
+        { error: "name_must_be_between_2_and_80_chars" },
+        { status: 400 },
+      );
+    }
+    if (body.role !== undefined && body.role !== "admin" && body.role !== "player") {
+      return NextResponse.json({ error: "invalid_role" }, { status: 400 });
     }
-    if (data.kind === "not_allowed") {
-      return NextResponse.json({ error: "not_allowed" }, { status: 403 });
+    const role = body.role as MemberRole | undefined;
+    if (name === undefined && role === undefined) {
+      return NextResponse.json({ error: "no_changes" }, { status: 400 });
     }
 
-    const response = NextResponse.json({ success: true });
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
+    const memberPath = `families/${familyId}/members/${memberId}`;
+    const memberDoc = await getDocument(memberPath, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
     }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
-    console.error("[REMOVE_FAMILY_MEMBER_ERROR]", reason);
-    if (reason.includes("FIRESTORE_HTTP_401")) {
-      return jsonReauthRequired();
+    const isChild = readString(memberDoc.fields, "accountType") === "child";
+    const currentRole = readString(memberDoc.fields, "role") === "admin" ? "admin" : "player";
+    if (role === "admin" && isChild) {
+      return NextResponse.json({ error: "child_profiles_cannot_be_admin" }, { status: 400 });
     }
-    if (reason.includes("FIREBASE_REFRESH_FAILED")) {
-      return jsonReauthRequired();
+    if (currentRole === "admin" && role === "player") {
+      const [ownerUid, adminIds] = await Promise.all([
+        getFamilyOwnerUid(familyId, idToken),
+        listActiveAdminIds(familyId, idToken),
+      ]);
+      if (memberId === ownerUid) {
+        return NextResponse.json({ error: "cannot_demote_owner" }, { status: 409 });
+      }
+      if (adminIds.every((adminId) => adminId === memberId)) {
+        return NextResponse.json({ error: "family_needs_an_admin" }, { status: 409 });
+      }
     }
-    if (reason.includes("FIRESTORE_HTTP_403")) {
-      return jsonFirestoreForbidden();
+
+    const now = new Date().toISOString();
+    const changes: Record<string, FirestoreValue> = {
+      ...(name !== undefined ? { name: stringField(name) } : {}),
+      ...(role !== undefined ? { role: stringField(role) } : {}),
+      updatedAt: timestampField(now),
+    };
+    const memberEmail = readString(memberDoc.fields, "email").trim().toLowerCase();
+    const isPendingInvite = readString(memberDoc.fields, "status") === "invited";
+    await commitBatch(
+      [
+        updateDocumentWrite(memberPath, changes, Object.keys(changes), DOCUMENT_MUST_EXIST),
+        // The invitee claims the role recorded here, so it has to follow the member doc.
+        ...(role !== undefined && isPendingInvite && memberEmail
+          ? [
+              updateDocumentWrite(
+                `inviteLookup/${memberEmail}`,
+                { role: stringField(role), updatedAt: timestampField(now) },
+                ["role", "updatedAt"],
+                DOCUMENT_MUST_EXIST,
+              ),
+            ]
+          : []),
+        // The family tablet lists children by the name stored with their login.
+        ...(name !== undefined && isChild
+          ? [
+              updateDocumentWrite(
+                `${childLoginsPath(familyId)}/${memberId}`,
+                { name: stringField(name), updatedAt: timestampField(now) },
+                ["name", "updatedAt"],
+                DOCUMENT_MUST_EXIST,
+              ),
+            ]
+          : []),
+      ],
+      idToken,
+    );
+    await publishFamilyEvent(familyId, session.uid, { type: "member.updated", memberId });
+    return NextResponse.json({
+      success: true,
+      member: {
+        id: memberId,
+        name: name ?? readString(memberDoc.fields, "name"),
+        role: role ?? currentRole,
+      },
+    });
+  },
+);
+
+export const DELETE = withFamily<{ memberId: string }>(
+  {
+    errorTag: "REMOVE_FAMILY_MEMBER_ERROR",
+    failureError: "remove_member_failed",
+    notFoundError: "member_not_found",
+    permission: "members:manage",
+  },
+  async ({ params: { memberId }, session, familyId, idToken }) => {
+    if (!memberId) {
+      return NextResponse.json({ error: "member_id_required" }, { status: 400 });
     }
-    if (
-      reason.includes("FIRESTORE_HTTP_404") &&
-      reason.toLowerCase().includes("document") &&
-      reason.toLowerCase().includes("not found")
-    ) {
-      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    const memberUid = readString(memberDoc.fields, "uid");
+    const memberEmail = readString(memberDoc.fields, "email").trim().toLowerCase();
+    if (memberId === session.uid || memberUid === session.uid) {
+      return NextResponse.json({ error: "cannot_remove_self" }, { status: 400 });
     }
-    return NextResponse.json({ error: "remove_member_failed" }, { status: 500 });
-  }
-}
+    if (memberId === (await getFamilyOwnerUid(familyId, idToken))) {
+      return NextResponse.json({ error: "cannot_remove_owner" }, { status: 409 });
+    }
+
+    const inviteLookup = memberEmail ? await readInviteLookup(memberEmail, idToken) : null;
+    const now = new Date().toISOString();
+    // One batch, so a partial failure cannot leave a removed member with a live child login
+    // or sessions. Rules check the revocation against the tombstone written alongside it.
+    await commitBatch(
+      [
+        updateDocumentWrite(
+          `families/${familyId}/members/${memberId}`,
+          { deleted: boolField(true), deletedAt: timestampField(now) },
+          undefined,
+          DOCUMENT_MUST_EXIST,
+        ),
+        // The lookup may by now point at an invite from another family; leave that one alone.
+        ...(inviteLookup && readString(inviteLookup.fields, "familyId") === familyId
+          ? [
+              updateDocumentWrite(
+                `inviteLookup/${memberEmail}`,
+                { status: stringField("revoked"), updatedAt: timestampField(now) },
+                undefined,
+                inviteLookup.updateTime ? { updateTime: inviteLookup.updateTime } : undefined,
+              ),
+            ]
+          : []),
+        // A removed child disappears from the family tablet and can no longer sign in.
+        ...(readString(memberDoc.fields, "accountType") === "child"
+          ? [deleteDocumentWrite(`${childLoginsPath(familyId)}/${memberId}`)]
+          : []),
+        ...(memberUid
+          ? [revokeMemberSessionsWrite(familyId, memberId, memberUid, session.uid, now)]
+          : []),
+      ],
+      idToken,
+    );
+    await publishFamilyEvent(familyId, session.uid, { type: "member.removed", memberId });
+    await removeUserFromFamilyRoom(familyId, memberUid);
+    return NextResponse.json({ success: true });
+  },
+);
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { appendLedgerEntry } from "@/lib/family/wallet";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+
+type AdjustWalletBody = {
+  amount?: unknown;
+  note?: unknown;
+};
+
+const MAX_ADJUSTMENT = 10000;
+
+export const POST = withFamily<{ memberId: string }>(
+  {
+    errorTag: "WALLET_ADJUSTMENT_ERROR",
+    failureError: "wallet_adjustment_failed",
+    notFoundError: "member_not_found",
+    permission: "wallet:adjust",
+  },
+  async ({ params: { memberId }, session, familyId, idToken, readJson }) => {
+    if (!memberId) {
+      return NextResponse.json({ error: "member_id_required" }, { status: 400 });
+    }
+
+    const body = await readJson<AdjustWalletBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const amount = typeof body.amount === "number" ? body.amount : Number.NaN;
+    if (!Number.isInteger(amount) || amount === 0 || Math.abs(amount) > MAX_ADJUSTMENT) {
+      return NextResponse.json({ error: "invalid_amount" }, { status: 400 });
+    }
+    const note = typeof body.note === "string" ? body.note.trim().slice(0, 200) : "";
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const result = await appendLedgerEntry({
+      familyId,
+      memberId,
+      kind: amount > 0 ? "credit" : "debit",
+      amount: Math.abs(amount),
+      reason: "adjustment",
+      note,
+      createdBy: session.uid,
+      idToken,
+    });
+    if (result.kind === "insufficient_funds") {
+      return NextResponse.json(
+        { error: "insufficient_funds", balance: result.balance },
+        { status: 409 },
+      );
+    }
+    if (result.kind === "duplicate_entry") {
+      return NextResponse.json({ error: "duplicate_entry" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, entry: result.entry }, { status: 201 });
+  },
+);
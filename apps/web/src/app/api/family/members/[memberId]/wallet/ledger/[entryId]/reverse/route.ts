@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { appendLedgerEntry, getLedgerEntry, reversalEntryId } from "@/lib/family/wallet";
+
+export const POST = withFamily<{ memberId: string; entryId: string }>(
+  {
+    errorTag: "WALLET_REVERSAL_ERROR",
+    failureError: "wallet_reversal_failed",
+    permission: "wallet:adjust",
+  },
+  async ({ params: { memberId, entryId }, session, familyId, idToken }) => {
+    if (!memberId || !entryId) {
+      return NextResponse.json({ error: "entry_id_required" }, { status: 400 });
+    }
+
+    const original = await getLedgerEntry(familyId, memberId, entryId, idToken);
+    if (!original) {
+      return NextResponse.json({ error: "entry_not_found" }, { status: 404 });
+    }
+    if (original.reason === "reversal") {
+      return NextResponse.json({ error: "cannot_reverse_reversal" }, { status: 400 });
+    }
+
+    const result = await appendLedgerEntry({
+      familyId,
+      memberId,
+      kind: original.kind === "credit" ? "debit" : "credit",
+      amount: original.amount,
+      reason: "reversal",
+      note: original.note,
+      choreId: original.choreId,
+      itemId: original.itemId,
+      reversesEntryId: original.id,
+      entryId: reversalEntryId(original.id),
+      createdBy: session.uid,
+      idToken,
+    });
+    if (result.kind === "duplicate_entry") {
+      return NextResponse.json({ error: "already_reversed" }, { status: 409 });
+    }
+    if (result.kind === "insufficient_funds") {
+      return NextResponse.json(
+        { error: "insufficient_funds", balance: result.balance },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ success: true, entry: result.entry }, { status: 201 });
+  },
+);
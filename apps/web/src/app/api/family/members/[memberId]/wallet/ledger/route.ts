@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { listLedgerEntries, MAX_LEDGER_PAGE_SIZE } from "@/lib/family/wallet";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+
+function parseLimit(value: string | null) {
+  const parsed = Number(value);
+  if (!value || !Number.isFinite(parsed)) {
+    return 25;
+  }
+  return Math.min(Math.max(Math.floor(parsed), 1), MAX_LEDGER_PAGE_SIZE);
+}
+
+export const GET = withFamily<{ memberId: string }>(
+  {
+    errorTag: "WALLET_LEDGER_ERROR",
+    failureError: "ledger_unavailable",
+    notFoundError: "member_not_found",
+  },
+  async ({ request, params: { memberId }, familyId, idToken }) => {
+    const cursor = request.nextUrl.searchParams.get("cursor") ?? undefined;
+    const limit = parseLimit(request.nextUrl.searchParams.get("limit"));
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const page = await listLedgerEntries(familyId, memberId, { cursor, limit }, idToken);
+    if (page.kind === "invalid_cursor") {
+      return NextResponse.json({ error: "invalid_cursor" }, { status: 400 });
+    }
+    return NextResponse.json({ memberId, entries: page.entries, nextCursor: page.nextCursor });
+  },
+);
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { computeLedgerBalance, getWallet } from "@/lib/family/wallet";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+
+export const GET = withFamily<{ memberId: string }>(
+  {
+    errorTag: "WALLET_BALANCE_ERROR",
+    failureError: "wallet_unavailable",
+    notFoundError: "member_not_found",
+  },
+  async ({ request, params: { memberId }, familyId, idToken }) => {
+    const verify = request.nextUrl.searchParams.get("verify") === "true";
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const wallet = await getWallet(familyId, memberId, idToken);
+    if (!verify) {
+      return NextResponse.json({ ...wallet, audit: null });
+    }
+
+    // Audit mode: replay the ledger and report whether the cached balance agrees.
+    const ledger = await computeLedgerBalance(familyId, memberId, idToken);
+    return NextResponse.json({
+      ...wallet,
+      audit: {
+        ledgerBalance: ledger.balance,
+        entryCount: ledger.entryCount,
+        consistent: ledger.balance === wallet.balance,
+      },
+    });
+  },
+);
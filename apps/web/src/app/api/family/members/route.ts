@@ -1,24 +1,27 @@
 import { randomUUID } from "node:crypto";
-import { NextRequest, NextResponse } from "next/server";
-import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
-import { getSessionFromRequest } from "@/lib/auth/request-session";
-import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withSession } from "@/lib/api/route";
+import { hasFamilyPermission } from "@/lib/family/permissions";
+import { getActiveFamilyId, linkUserFamily } from "@/lib/family/membership";
+import { DEFAULT_FAMILY_TIMEZONE, isValidTimeZone } from "@/lib/family/timezone";
 import {
   boolField,
+  commitBatch,
   createOrReplaceDocument,
   findFirstFamilyIdByMemberUid,
-  getDocument,
-  patchDocument,
-  readStringArray,
-  stringArrayField,
+  setDocumentWrite,
   stringField,
   timestampField,
 } from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
 
 type AddMemberBody = {
   name?: string;
   email?: string;
   role?: string;
+  // Browser timezone, used only when this request creates the family.
+  timezone?: string;
 };
 
 function maskEmail(email: string) {
@@ -34,59 +37,15 @@ function logInviteDebug(event: string, details: Record<string, unknown>) {
   console.info("[INVITE_DEBUG]", event, JSON.stringify(details));
 }
 
-function jsonReauthRequired() {
-  return NextResponse.json(
-    {
-      error: "reauth_required",
-      message: "Please sign out and sign in again to refresh your session.",
-    },
-    { status: 401 },
-  );
-}
-
-function jsonFirestoreForbidden() {
-  return NextResponse.json(
-    {
-      error: "firestore_forbidden",
-      message:
-        "Authenticated user does not have access to Firestore documents under current rules.",
-    },
-    { status: 403 },
-  );
-}
-
-function jsonFirestoreNotConfigured() {
-  return NextResponse.json(
-    {
-      error: "firestore_not_configured",
-      message:
-        "Cloud Firestore default database is not configured for this project.",
-    },
-    { status: 503 },
-  );
-}
-
 function isLikelyEmail(value: string) {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
 }
 
-async function getUserFamilyIds(uid: string, idToken: string) {
-  try {
-    const userDoc = await getDocument(`users/${uid}`, idToken);
-    return readStringArray(userDoc.fields, "familyIds");
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "";
-    if (message.includes("FIRESTORE_HTTP_404")) {
-      return [];
-    }
-    throw error;
-  }
-}
-
 async function createFamilyForUser(
   uid: string,
   userName: string,
   userEmail: string,
+  timeZone: string,
   idToken: string,
 ) {
   const familyId = randomUUID();
@@ -96,6 +55,7 @@ async function createFamilyForUser(
     `families/${familyId}`,
     {
       name: stringField(`${userName || "My"} Family`),
+      timezone: stringField(timeZone),
       createdBy: stringField(uid),
       createdAt: timestampField(now),
     },
@@ -116,159 +76,101 @@ async function createFamilyForUser(
     idToken,
   );
 
-  await patchDocument(
-    `users/${uid}`,
-    {
-      uid: stringField(uid),
-      familyIds: stringArrayField([familyId]),
-      lastFamilyUpdateAt: timestampField(now),
-    },
-    idToken,
-    ["familyIds", "lastFamilyUpdateAt", "uid"],
-  );
+  await linkUserFamily(uid, familyId, idToken);
 
   return familyId;
 }
 
-async function relinkUserPrimaryFamily(uid: string, familyId: string, idToken: string) {
-  const now = new Date().toISOString();
-  await patchDocument(
-    `users/${uid}`,
-    {
-      uid: stringField(uid),
-      familyIds: stringArrayField([familyId]),
-      lastFamilyUpdateAt: timestampField(now),
-    },
-    idToken,
-    ["familyIds", "lastFamilyUpdateAt", "uid"],
-  );
-}
-
-export async function POST(request: NextRequest) {
-  const session = getSessionFromRequest(request);
-  if (!session?.uid) {
-    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
-  }
-  if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
-    return jsonReauthRequired();
-  }
-
-  let body: AddMemberBody;
-  try {
-    body = (await request.json()) as AddMemberBody;
-  } catch {
-    return NextResponse.json({ error: "invalid_json" }, { status: 400 });
-  }
+// Callers without a family get one created for them, so this cannot use `withFamily`.
+export const POST = withSession(
+  { errorTag: "ADD_FAMILY_MEMBER_ERROR", failureError: "add_member_failed" },
+  async ({ session, idToken, readJson }) => {
+    const body = await readJson<AddMemberBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
 
-  const name = (body.name ?? "").trim();
-  const email = (body.email ?? "").trim().toLowerCase();
-  const role = body.role === "admin" ? "admin" : "player";
+    const name = (body.name ?? "").trim();
+    const email = (body.email ?? "").trim().toLowerCase();
+    const role = body.role === "admin" ? "admin" : "player";
 
-  if (name.length < 2 || name.length > 80) {
-    return NextResponse.json(
-      { error: "name_must_be_between_2_and_80_chars" },
-      { status: 400 },
-    );
-  }
+    if (name.length < 2 || name.length > 80) {
+      return NextResponse.json(
+        { error: "name_must_be_between_2_and_80_chars" },
+        { status: 400 },
+      );
+    }
 
-  if (email && !isLikelyEmail(email)) {
-    return NextResponse.json({ error: "invalid_email" }, { status: 400 });
-  }
+    if (email && !isLikelyEmail(email)) {
+      return NextResponse.json({ error: "invalid_email" }, { status: 400 });
+    }
 
-  try {
     logInviteDebug("add_member_start", {
       requesterUid: session.uid,
       email: maskEmail(email),
       role,
     });
-    const { data, session: refreshedSession, refreshed } =
-      await runWithRefreshedFirebaseToken(session, async (idToken) => {
-        let familyIds = await getUserFamilyIds(session.uid, idToken);
-        let familyId = familyIds[0];
-        if (!familyId) {
-          const recoveredFamilyId = await findFirstFamilyIdByMemberUid(session.uid, idToken);
-          if (recoveredFamilyId) {
-            familyId = recoveredFamilyId;
-            await relinkUserPrimaryFamily(session.uid, familyId, idToken);
-          } else {
-            familyId = await createFamilyForUser(
-              session.uid,
-              session.name,
-              session.email,
-              idToken,
-            );
-          }
-          familyIds = [familyId];
-        }
-
-        const memberId = email || randomUUID();
-        const now = new Date().toISOString();
-        await createOrReplaceDocument(
-          `families/${familyId}/members/${memberId}`,
-          {
-            name: stringField(name),
-            email: stringField(email),
-            role: stringField(role),
-            status: stringField("invited"),
-            deleted: boolField(false),
-            createdBy: stringField(session.uid),
-            createdAt: timestampField(now),
-          },
+    let familyId = await getActiveFamilyId(session, idToken);
+    if (!familyId) {
+      const recoveredFamilyId = await findFirstFamilyIdByMemberUid(session.uid, idToken);
+      if (recoveredFamilyId) {
+        familyId = recoveredFamilyId;
+        await linkUserFamily(session.uid, familyId, idToken);
+      } else {
+        familyId = await createFamilyForUser(
+          session.uid,
+          session.name,
+          session.email,
+          isValidTimeZone(body.timezone) ? body.timezone : DEFAULT_FAMILY_TIMEZONE,
           idToken,
         );
-        if (email) {
-          await createOrReplaceDocument(
-            `inviteLookup/${email}`,
-            {
-              email: stringField(email),
-              familyId: stringField(familyId),
-              role: stringField(role),
-              status: stringField("invited"),
-              updatedAt: timestampField(now),
-            },
-            idToken,
-          );
-        }
-        logInviteDebug("add_member_written", {
-          requesterUid: session.uid,
-          familyId,
-          memberId,
-          email: maskEmail(email),
-          role,
-        });
-
-        return {
-          familyId,
-          member: { id: memberId, name, email, role, status: "invited" },
-        };
-      });
-
-    const response = NextResponse.json(data, { status: 201 });
-    if (refreshed) {
-      setSessionUserCookie(response, refreshedSession);
-    }
-    return response;
-  } catch (error) {
-    const reason =
-      error instanceof Error && error.message ? error.message.slice(0, 160) : "unknown";
-    console.error("[ADD_FAMILY_MEMBER_ERROR]", reason);
-    if (
-      reason.includes("FIRESTORE_HTTP_404") &&
-      reason.toLowerCase().includes("database (default) does not exist")
-    ) {
-      return jsonFirestoreNotConfigured();
-    }
-    if (
-      reason.includes("FIRESTORE_HTTP_401")
-    ) {
-      return jsonReauthRequired();
-    }
-    if (reason.includes("FIREBASE_REFRESH_FAILED")) {
-      return jsonReauthRequired();
+      }
     }
-    if (reason.includes("FIRESTORE_HTTP_403")) {
-      return jsonFirestoreForbidden();
+    if (!(await hasFamilyPermission(familyId, session.uid, "members:manage", idToken))) {
+      return jsonNotAllowed();
     }
-    return NextResponse.json({ error: "add_member_failed" }, { status: 500 });
-  }
-}
+
+    const memberId = email || randomUUID();
+    const now = new Date().toISOString();
+    // The member doc and its invite lookup are committed together so an invite can never
+    // exist without the lookup the invitee needs to find it.
+    await commitBatch(
+      [
+        setDocumentWrite(`families/${familyId}/members/${memberId}`, {
+          name: stringField(name),
+          email: stringField(email),
+          role: stringField(role),
+          status: stringField("invited"),
+          deleted: boolField(false),
+          createdBy: stringField(session.uid),
+          createdAt: timestampField(now),
+        }),
+        ...(email
+          ? [
+              setDocumentWrite(`inviteLookup/${email}`, {
+                email: stringField(email),
+                familyId: stringField(familyId),
+                role: stringField(role),
+                status: stringField("invited"),
+                updatedAt: timestampField(now),
+              }),
+            ]
+          : []),
+      ],
+      idToken,
+    );
+    logInviteDebug("add_member_written", {
+      requesterUid: session.uid,
+      familyId,
+      memberId,
+      email: maskEmail(email),
+      role,
+    });
+    await publishFamilyEvent(familyId, session.uid, { type: "member.added", memberId });
+
+    return NextResponse.json(
+      { familyId, member: { id: memberId, name, email, role, status: "invited" } },
+      { status: 201 },
+    );
+  },
+);
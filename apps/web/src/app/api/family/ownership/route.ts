@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { getFamilyOwnerUid, transferOwnership } from "@/lib/family/ownership";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+type TransferOwnershipBody = {
+  memberId?: unknown;
+};
+
+export const GET = withFamily(
+  { errorTag: "FAMILY_OWNER_ERROR", failureError: "owner_unavailable" },
+  async ({ session, familyId, idToken }) => {
+    const ownerUid = await getFamilyOwnerUid(familyId, idToken);
+    return NextResponse.json({ ownerUid, viewerIsOwner: ownerUid === session.uid });
+  },
+);
+
+/** Only the current owner can hand the family over, and only to a signed-in member. */
+export const POST = withFamily(
+  {
+    errorTag: "FAMILY_OWNER_TRANSFER_ERROR",
+    failureError: "transfer_ownership_failed",
+    permission: "members:manage",
+  },
+  async ({ session, familyId, idToken, readJson }) => {
+    const body = await readJson<TransferOwnershipBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const memberId = typeof body.memberId === "string" ? body.memberId.trim() : "";
+    if (!memberId || memberId.includes("/")) {
+      return NextResponse.json({ error: "member_id_required" }, { status: 400 });
+    }
+    if (memberId === session.uid) {
+      return NextResponse.json({ error: "already_owner" }, { status: 400 });
+    }
+
+    const result = await transferOwnership(familyId, session.uid, memberId, idToken);
+    if (result.kind === "not_owner") {
+      return NextResponse.json({ error: "not_owner" }, { status: 403 });
+    }
+    if (result.kind === "member_not_found") {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+    if (result.kind === "member_cannot_own") {
+      return NextResponse.json({ error: "member_cannot_own" }, { status: 400 });
+    }
+
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "family.owner_changed",
+      ownerUid: result.ownerUid,
+    });
+    return NextResponse.json({ success: true, ownerUid: result.ownerUid });
+  },
+);
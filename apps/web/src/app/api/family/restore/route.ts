@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import { listRestorableFamilies, restoreFamily } from "@/lib/family/deletion";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+type RestoreFamilyBody = {
+  familyId?: unknown;
+};
+
+export const dynamic = "force-dynamic";
+
+/** Deleted families the caller owns that are still inside the restore grace period. */
+export const GET = withSession(
+  { errorTag: "RESTORABLE_FAMILIES_ERROR", failureError: "families_unavailable" },
+  async ({ session, idToken }) => {
+    const families = await listRestorableFamilies(session.uid, idToken);
+    return NextResponse.json({ families });
+  },
+);
+
+/** Undoes a family deletion and switches the session back to the restored family. */
+export const POST = withSession(
+  { errorTag: "RESTORE_FAMILY_ERROR", failureError: "restore_family_failed" },
+  async ({ session, idToken, readJson, updateSession }) => {
+    const body = await readJson<RestoreFamilyBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    const familyId = typeof body.familyId === "string" ? body.familyId.trim() : "";
+    if (!familyId || familyId.includes("/")) {
+      return NextResponse.json({ error: "family_id_required" }, { status: 400 });
+    }
+
+    const result = await restoreFamily(familyId, session.uid, idToken);
+    if (result.kind === "not_found") {
+      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+    }
+    if (result.kind === "not_owner") {
+      return NextResponse.json({ error: "not_owner" }, { status: 403 });
+    }
+    if (result.kind === "not_deleted") {
+      return NextResponse.json({ error: "family_not_deleted" }, { status: 409 });
+    }
+    if (result.kind === "grace_period_over") {
+      return NextResponse.json({ error: "restore_period_expired" }, { status: 410 });
+    }
+
+    await publishFamilyEvent(familyId, session.uid, { type: "family.restored" });
+    updateSession({ activeFamilyId: familyId });
+    return NextResponse.json({ success: true, familyId });
+  },
+);
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { deleteFamily } from "@/lib/family/deletion";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+/**
+ * Deletes the active family for everyone. Only the owner can do it, and it can be undone
+ * from `/api/family/restore` until `restorableUntil`.
+ */
+export const DELETE = withFamily(
+  {
+    errorTag: "DELETE_FAMILY_ERROR",
+    failureError: "delete_family_failed",
+    permission: "family:settings",
+  },
+  async ({ session, familyId, idToken }) => {
+    const result = await deleteFamily(familyId, session.uid, idToken);
+    if (result.kind === "not_owner") {
+      return NextResponse.json({ error: "not_owner" }, { status: 403 });
+    }
+
+    await publishFamilyEvent(familyId, session.uid, {
+      type: "family.deleted",
+      restorableUntil: result.restorableUntil,
+    });
+    return NextResponse.json({
+      success: true,
+      familyId,
+      restorableUntil: result.restorableUntil,
+    });
+  },
+);
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { isValidTimeZone, localDateInTimeZone, readFamilyTimeZone } from "@/lib/family/timezone";
+import { getDocument, patchDocument, stringField, timestampField } from "@/lib/firestore/rest";
+
+type UpdateTimeZoneBody = {
+  timezone?: unknown;
+};
+
+export const GET = withFamily(
+  { errorTag: "FAMILY_TIMEZONE_ERROR", failureError: "timezone_unavailable" },
+  async ({ familyId, idToken }) => {
+    const familyDoc = await getDocument(`families/${familyId}`, idToken);
+    const timezone = readFamilyTimeZone(familyDoc.fields);
+    return NextResponse.json({ timezone, today: localDateInTimeZone(timezone) });
+  },
+);
+
+export const PUT = withFamily(
+  {
+    errorTag: "FAMILY_TIMEZONE_UPDATE_ERROR",
+    failureError: "update_timezone_failed",
+    permission: "family:settings",
+  },
+  async ({ familyId, idToken, readJson }) => {
+    const body = await readJson<UpdateTimeZoneBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+    if (!isValidTimeZone(body.timezone)) {
+      return NextResponse.json({ error: "invalid_timezone" }, { status: 400 });
+    }
+    const timezone = body.timezone;
+
+    await patchDocument(
+      `families/${familyId}`,
+      {
+        timezone: stringField(timezone),
+        updatedAt: timestampField(new Date().toISOString()),
+      },
+      idToken,
+      ["timezone", "updatedAt"],
+    );
+    return NextResponse.json({
+      success: true,
+      timezone,
+      today: localDateInTimeZone(timezone),
+    });
+  },
+);
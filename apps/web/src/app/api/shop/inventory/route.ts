@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withFamily } from "@/lib/api/route";
+import { roleHasPermission } from "@/lib/family/permissions";
+import { getShopItem } from "@/lib/shop/catalog";
+import { listInventory } from "@/lib/shop/inventory";
+
+export const GET = withFamily(
+  { errorTag: "SHOP_INVENTORY_ERROR", failureError: "inventory_unavailable" },
+  async ({ request, session, familyId, member, idToken }) => {
+    const memberId = request.nextUrl.searchParams.get("memberId")?.trim() || session.uid;
+    if (memberId !== session.uid && !roleHasPermission(member.role, "members:act_for")) {
+      return jsonNotAllowed();
+    }
+
+    const inventory = await listInventory(familyId, memberId, idToken);
+    return NextResponse.json({
+      memberId,
+      items: inventory.map((entry) => ({ ...entry, item: getShopItem(entry.itemId) })),
+    });
+  },
+);
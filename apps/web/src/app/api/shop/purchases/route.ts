@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withFamily } from "@/lib/api/route";
+import { roleHasPermission } from "@/lib/family/permissions";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+import { getShopItem } from "@/lib/shop/catalog";
+import { purchaseItem } from "@/lib/shop/inventory";
+
+type PurchaseBody = {
+  itemId?: unknown;
+  memberId?: unknown;
+};
+
+export const POST = withFamily(
+  {
+    errorTag: "SHOP_PURCHASE_ERROR",
+    failureError: "purchase_failed",
+    notFoundError: "member_not_found",
+  },
+  async ({ session, familyId, member, idToken, readJson }) => {
+    const body = await readJson<PurchaseBody>();
+    if (!body) {
+      return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+    }
+
+    const item = typeof body.itemId === "string" ? getShopItem(body.itemId.trim()) : null;
+    if (!item) {
+      return NextResponse.json({ error: "item_not_found" }, { status: 404 });
+    }
+    const memberId =
+      typeof body.memberId === "string" && body.memberId.trim().length > 0
+        ? body.memberId.trim()
+        : session.uid;
+
+    // Players shop for themselves; admins may also buy on behalf of another member.
+    if (memberId !== session.uid && !roleHasPermission(member.role, "members:act_for")) {
+      return jsonNotAllowed();
+    }
+
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return NextResponse.json({ error: "member_not_found" }, { status: 404 });
+    }
+
+    const result = await purchaseItem({
+      familyId,
+      memberId,
+      item,
+      createdBy: session.uid,
+      idToken,
+    });
+    if (result.kind === "already_owned") {
+      return NextResponse.json({ error: "already_owned" }, { status: 409 });
+    }
+    if (result.kind === "insufficient_funds") {
+      return NextResponse.json(
+        { error: "insufficient_funds", balance: result.balance },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, item: result.inventoryItem, balance: result.balance },
+      { status: 201 },
+    );
+  },
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withFamily } from "@/lib/api/route";
+import { getWallet } from "@/lib/family/wallet";
+import { getAvatar } from "@/lib/shop/avatar";
+import { isShopItemCategory, SHOP_CATALOG } from "@/lib/shop/catalog";
+import { listInventory } from "@/lib/shop/inventory";
+
+export const GET = withFamily(
+  { errorTag: "SHOP_LIST_ERROR", failureError: "shop_unavailable" },
+  async ({ request, session, familyId, idToken }) => {
+    const category = request.nextUrl.searchParams.get("category") ?? "";
+    if (category && !isShopItemCategory(category)) {
+      return NextResponse.json({ error: "invalid_category" }, { status: 400 });
+    }
+    const items = category
+      ? SHOP_CATALOG.filter((item) => item.category === category)
+      : SHOP_CATALOG;
+
+    const [wallet, inventory, avatar] = await Promise.all([
+      getWallet(familyId, session.uid, idToken),
+      listInventory(familyId, session.uid, idToken),
+      getAvatar(familyId, session.uid, idToken),
+    ]);
+    const ownedItemIds = new Set(inventory.map((entry) => entry.itemId));
+
+    return NextResponse.json({
+      memberId: session.uid,
+      balance: wallet.balance,
+      avatar,
+      items: items.map((item) => ({ ...item, owned: ownedItemIds.has(item.id) })),
+    });
+  },
+);
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api/route";
+import { createWsTicket } from "@/lib/auth/ws-ticket";
+import { getUserFamilyIds } from "@/lib/family/membership";
+import { FirestoreNotFoundError, FirestorePermissionDeniedError } from "@/lib/firestore/errors";
+import { getDocument, readBoolean, readString } from "@/lib/firestore/rest";
+
+export const dynamic = "force-dynamic";
+
+async function isActiveMember(familyId: string, uid: string, idToken: string) {
+  try {
+    const memberDoc = await getDocument(`families/${familyId}/members/${uid}`, idToken);
+    return (
+      !readBoolean(memberDoc.fields, "deleted") &&
+      readString(memberDoc.fields, "status") === "active"
+    );
+  } catch (error) {
+    if (
+      error instanceof FirestoreNotFoundError ||
+      error instanceof FirestorePermissionDeniedError
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Issues a short-lived ticket for the websocket handshake. Family rooms are derived here
+ * from Firestore membership, never from what the client claims.
+ */
+export const POST = withSession(
+  { errorTag: "WS_TICKET_ERROR", failureError: "ws_ticket_failed" },
+  async ({ session, idToken }) => {
+    const candidateFamilyIds = await getUserFamilyIds(session.uid, idToken);
+    const memberships = await Promise.all(
+      candidateFamilyIds.map((familyId) => isActiveMember(familyId, session.uid, idToken)),
+    );
+    const familyIds = candidateFamilyIds.filter((_familyId, index) => memberships[index]);
+
+    const ticket = createWsTicket({ uid: session.uid, familyIds });
+    if (!ticket) {
+      return NextResponse.json({ error: "ws_not_configured" }, { status: 503 });
+    }
+    return NextResponse.json(ticket, { headers: { "Cache-Control": "no-store" } });
+  },
+);
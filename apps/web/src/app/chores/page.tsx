@@ -1,44 +1,80 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { AddChoresDialog } from "@/components/add-chores-dialog";
+import { ChoreReviewActions } from "@/components/chore-review-actions";
+import { useFamilyEvents } from "@/lib/realtime/use-family-events";
 
 type ChoreRow = {
   id: string;
   title: string;
   status: string;
+  assigneeId?: string;
   assigneeName: string;
   dueDate: string;
   coinValue: number;
+  reviewNote?: string;
 };
 
 type ChoresResponse = {
+  viewerUid: string;
+  viewerRole: "admin" | "player";
   chores: ChoreRow[];
+  nextCursor?: string;
 };
 
+const CHORES_PAGE_SIZE = 50;
+const MAX_CHORES_PAGE_SIZE = 200;
+
+async function fetchChoresPage(params: URLSearchParams) {
+  const response = await fetch(`/api/chores?${params.toString()}`, { cache: "no-store" });
+  if (!response.ok) {
+    const body = (await response.json()) as { error?: string };
+    throw new Error(body.error ?? `CHORES_HTTP_${response.status}`);
+  }
+  return (await response.json()) as ChoresResponse;
+}
+
 export default function ChoresPage() {
   const [chores, setChores] = useState<ChoreRow[]>([]);
+  const [viewer, setViewer] = useState<{ uid: string; role: "admin" | "player" }>({
+    uid: "",
+    role: "player",
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [removingChoreId, setRemovingChoreId] = useState("");
+  const [nextCursor, setNextCursor] = useState("");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadedCountRef = useRef(0);
 
-  async function loadChores() {
-    setIsLoading(true);
-    setError("");
+  useEffect(() => {
+    loadedCountRef.current = chores.length;
+  }, [chores]);
+
+  // Reloads cover every row already on screen so a refresh never collapses loaded pages.
+  async function loadChores({ silent = false }: { silent?: boolean } = {}) {
+    if (!silent) {
+      setIsLoading(true);
+      setError("");
+    }
     try {
-      const response = await fetch("/api/chores", { cache: "no-store" });
-      if (!response.ok) {
-        const body = (await response.json()) as { error?: string };
-        throw new Error(body.error ?? `CHORES_HTTP_${response.status}`);
-      }
-      const payload = (await response.json()) as ChoresResponse;
+      const limit = Math.min(
+        MAX_CHORES_PAGE_SIZE,
+        Math.max(CHORES_PAGE_SIZE, loadedCountRef.current),
+      );
+      const payload = await fetchChoresPage(new URLSearchParams({ limit: String(limit) }));
       setChores(payload.chores ?? []);
+      setNextCursor(payload.nextCursor ?? "");
+      setViewer({ uid: payload.viewerUid ?? "", role: payload.viewerRole ?? "player" });
     } catch (loadError) {
       const message = loadError instanceof Error ? loadError.message : "chores_unavailable";
       setError(message);
     } finally {
-      setIsLoading(false);
+      if (!silent) {
+        setIsLoading(false);
+      }
     }
   }
 
@@ -46,6 +82,32 @@ export default function ChoresPage() {
     void loadChores();
   }, []);
 
+  useFamilyEvents(({ event }) => {
+    if (event.type.startsWith("chore.")) {
+      void loadChores({ silent: true });
+    }
+  });
+
+  async function onLoadMore() {
+    if (loadingMore || !nextCursor) {
+      return;
+    }
+    setLoadingMore(true);
+    setError("");
+    try {
+      const payload = await fetchChoresPage(
+        new URLSearchParams({ cursor: nextCursor, limit: String(CHORES_PAGE_SIZE) }),
+      );
+      setChores((current) => [...current, ...(payload.chores ?? [])]);
+      setNextCursor(payload.nextCursor ?? "");
+    } catch (loadError) {
+      const message = loadError instanceof Error ? loadError.message : "chores_unavailable";
+      setError(message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
   async function onRemoveChore(choreId: string) {
     if (removingChoreId) {
       return;
@@ -92,7 +154,8 @@ export default function ChoresPage() {
               ) : (
                 <>
                   <p className="small family-page-subhead">
-                    {chores.length} chore{chores.length === 1 ? "" : "s"}
+                    {chores.length}
+                    {nextCursor ? "+" : ""} chore{chores.length === 1 && !nextCursor ? "" : "s"}
                   </p>
                   <div className="family-table-wrap">
                     <table className="family-table">
@@ -110,7 +173,22 @@ export default function ChoresPage() {
                         {chores.map((chore) => (
                           <tr key={chore.id}>
                             <td>{chore.title}</td>
-                            <td>{chore.status}</td>
+                            <td>
+                              {chore.status}
+                              {chore.reviewNote ? (
+                                <span className="block text-xs text-slate-500">
+                                  {chore.reviewNote}
+                                </span>
+                              ) : null}
+                              <ChoreReviewActions
+                                choreId={chore.id}
+                                status={chore.status}
+                                assigneeId={chore.assigneeId}
+                                viewerUid={viewer.uid}
+                                viewerRole={viewer.role}
+                                onChanged={loadChores}
+                              />
+                            </td>
                             <td>{chore.assigneeName || "-"}</td>
                             <td>{chore.dueDate || "-"}</td>
                             <td>
@@ -135,6 +213,17 @@ export default function ChoresPage() {
                       </tbody>
                     </table>
                   </div>
+                  {nextCursor ? (
+                    <div className="member-actions">
+                      <button
+                        type="button"
+                        className="btn btn-secondary member-action-btn"
+                        disabled={loadingMore}
+                        onClick={onLoadMore}>
+                        {loadingMore ? "Loading..." : "Load more"}
+                      </button>
+                    </div>
+                  ) : null}
                   <div className="chores-empty-cta chores-add-more-cta">
                     <AddChoresDialog triggerLabel="Add more chores" onCreated={loadChores} />
                   </div>
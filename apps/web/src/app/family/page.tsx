@@ -4,10 +4,18 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import type { FamilySummaryResponse } from "@/lib/family/types";
 
+function listTimeZones(current: string) {
+  const zones = Intl.supportedValuesOf("timeZone");
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
 export default function FamilyPage() {
   const [summary, setSummary] = useState<FamilySummaryResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
+  const [timeZone, setTimeZone] = useState("");
+  const [savingTimeZone, setSavingTimeZone] = useState(false);
+  const [timeZoneError, setTimeZoneError] = useState("");
 
   useEffect(() => {
     async function loadSummary() {
@@ -21,6 +29,7 @@ export default function FamilyPage() {
         }
         const payload = (await response.json()) as FamilySummaryResponse;
         setSummary(payload);
+        setTimeZone(payload.family?.timezone ?? "");
       } catch (loadError) {
         const message =
           loadError instanceof Error ? loadError.message : "summary_unavailable";
@@ -34,6 +43,44 @@ export default function FamilyPage() {
   }, []);
 
   const members = useMemo(() => summary?.members ?? [], [summary]);
+  const viewerIsAdmin = members.some(
+    (member) =>
+      (member.id === summary?.viewerUid || member.uid === summary?.viewerUid) &&
+      member.role === "admin",
+  );
+
+  async function onSaveTimeZone() {
+    if (savingTimeZone || !timeZone) {
+      return;
+    }
+    setSavingTimeZone(true);
+    setTimeZoneError("");
+    try {
+      const response = await fetch("/api/family/timezone", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone: timeZone }),
+      });
+      if (!response.ok) {
+        const body = (await response.json()) as { error?: string };
+        throw new Error(body.error ?? `TIMEZONE_HTTP_${response.status}`);
+      }
+      const payload = (await response.json()) as { timezone: string; today: string };
+      setSummary((current) =>
+        current?.family
+          ? {
+              ...current,
+              family: { ...current.family, timezone: payload.timezone, today: payload.today },
+            }
+          : current,
+      );
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : "update_timezone_failed";
+      setTimeZoneError(message);
+    } finally {
+      setSavingTimeZone(false);
+    }
+  }
 
   return (
     <div className="shell">
@@ -59,6 +106,37 @@ export default function FamilyPage() {
               <p className="small family-page-subhead">
                 {members.length} member{members.length === 1 ? "" : "s"}
               </p>
+              {summary?.family ? (
+                <div className="member-actions">
+                  <span className="small">Timezone:</span>
+                  {viewerIsAdmin ? (
+                    <>
+                      <select
+                        value={timeZone}
+                        onChange={(event) => setTimeZone(event.target.value)}
+                        className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm text-slate-800">
+                        {listTimeZones(timeZone).map((zone) => (
+                          <option key={zone} value={zone}>
+                            {zone}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        className="btn btn-secondary member-action-btn"
+                        disabled={savingTimeZone || timeZone === summary.family.timezone}
+                        onClick={onSaveTimeZone}>
+                        {savingTimeZone ? "Saving..." : "Save"}
+                      </button>
+                    </>
+                  ) : (
+                    <span className="small">{summary.family.timezone}</span>
+                  )}
+                </div>
+              ) : null}
+              {timeZoneError ? (
+                <p className="small family-error">Could not save timezone: {timeZoneError}</p>
+              ) : null}
               <div className="family-table-wrap">
                 <table className="family-table">
                   <thead>
@@ -67,13 +145,14 @@ export default function FamilyPage() {
                       <th>Email</th>
                       <th>Role</th>
                       <th>Status</th>
+                      <th>Coins</th>
                       <th>Last Sign In</th>
                     </tr>
                   </thead>
                   <tbody>
                     {members.length === 0 ? (
                       <tr>
-                        <td colSpan={5}>No family members found.</td>
+                        <td colSpan={6}>No family members found.</td>
                       </tr>
                     ) : (
                       members.map((member) => (
@@ -82,6 +161,12 @@ export default function FamilyPage() {
                           <td>{member.email || "-"}</td>
                           <td>{member.role}</td>
                           <td>{member.status}</td>
+                          <td>
+                            <span className="inline-flex items-center gap-1 text-sm font-semibold text-amber-600">
+                              <span aria-hidden="true">🪙</span>
+                              {member.coinBalance}
+                            </span>
+                          </td>
                           <td>
                             {member.id === summary?.viewerUid ||
                             member.uid === summary?.viewerUid
@@ -1,4 +1,5 @@
 import { cookies } from "next/headers";
+import Link from "next/link";
 import Script from "next/script";
 import { parseSessionToken } from "@/lib/auth/session";
 import { FamilyCard } from "@/components/family-card";
@@ -50,6 +51,9 @@ export default async function Home() {
 										{sessionUser.name || "Signed In"}
 									</p>
 									<p className="profile-email">{sessionUser.email}</p>
+									<Link className="family-more-link" href="/shop">
+										Shop
+									</Link>
 									<form action="/api/auth/logout" method="post">
 										<button
 											type="submit"
@@ -0,0 +1,209 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { ItemSprite } from "@/components/item-sprite";
+import { MemberAvatar } from "@/components/member-avatar";
+import type { AvatarLoadout, AvatarSlot } from "@/lib/shop/avatar";
+import type { ShopItem, ShopItemCategory } from "@/lib/shop/catalog";
+
+type ShopListing = ShopItem & {
+  owned: boolean;
+};
+
+type ShopResponse = {
+  memberId: string;
+  balance: number;
+  avatar: AvatarLoadout;
+  items: ShopListing[];
+};
+
+const SLOT_BY_CATEGORY: Record<ShopItemCategory, AvatarSlot> = {
+  hat: "head",
+  outfit: "body",
+  accessory: "accessory",
+  pet: "pet",
+};
+
+const CATEGORY_TABS: { value: ShopItemCategory | ""; label: string }[] = [
+  { value: "", label: "All" },
+  { value: "hat", label: "Hats" },
+  { value: "outfit", label: "Outfits" },
+  { value: "accessory", label: "Accessories" },
+  { value: "pet", label: "Pets" },
+];
+
+export default function ShopPage() {
+  const [shop, setShop] = useState<ShopResponse | null>(null);
+  const [category, setCategory] = useState<ShopItemCategory | "">("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [purchasingItemId, setPurchasingItemId] = useState("");
+  const [equippingItemId, setEquippingItemId] = useState("");
+
+  const visibleItems = useMemo(
+    () => (shop?.items ?? []).filter((item) => !category || item.category === category),
+    [shop, category],
+  );
+
+  async function loadShop() {
+    setIsLoading(true);
+    setError("");
+    try {
+      const response = await fetch("/api/shop", { cache: "no-store" });
+      if (!response.ok) {
+        const body = (await response.json()) as { error?: string };
+        throw new Error(body.error ?? `SHOP_HTTP_${response.status}`);
+      }
+      const payload = (await response.json()) as ShopResponse;
+      setShop(payload);
+    } catch (loadError) {
+      const message = loadError instanceof Error ? loadError.message : "shop_unavailable";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void loadShop();
+  }, []);
+
+  async function onPurchase(itemId: string) {
+    if (purchasingItemId) {
+      return;
+    }
+    setPurchasingItemId(itemId);
+    setError("");
+    try {
+      const response = await fetch("/api/shop/purchases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId }),
+      });
+      if (!response.ok) {
+        const body = (await response.json()) as { error?: string };
+        throw new Error(body.error ?? `PURCHASE_HTTP_${response.status}`);
+      }
+      const payload = (await response.json()) as { balance: number };
+      setShop((current) =>
+        current
+          ? {
+              ...current,
+              balance: payload.balance,
+              items: current.items.map((item) =>
+                item.id === itemId ? { ...item, owned: true } : item,
+              ),
+            }
+          : current,
+      );
+    } catch (purchaseError) {
+      const message =
+        purchaseError instanceof Error ? purchaseError.message : "purchase_failed";
+      setError(message);
+    } finally {
+      setPurchasingItemId("");
+    }
+  }
+
+  async function onToggleEquip(item: ShopListing) {
+    if (!shop || equippingItemId) {
+      return;
+    }
+    const slot = SLOT_BY_CATEGORY[item.category];
+    const equipped = shop.avatar[slot] === item.id;
+    setEquippingItemId(item.id);
+    setError("");
+    try {
+      const response = await fetch(`/api/family/members/${shop.memberId}/avatar`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slot, itemId: equipped ? null : item.id }),
+      });
+      if (!response.ok) {
+        const body = (await response.json()) as { error?: string };
+        throw new Error(body.error ?? `AVATAR_HTTP_${response.status}`);
+      }
+      const payload = (await response.json()) as { avatar: AvatarLoadout };
+      setShop((current) => (current ? { ...current, avatar: payload.avatar } : current));
+    } catch (equipError) {
+      const message = equipError instanceof Error ? equipError.message : "avatar_equip_failed";
+      setError(message);
+    } finally {
+      setEquippingItemId("");
+    }
+  }
+
+  return (
+    <div className="shell">
+      <div className="container">
+        <main className="panel family-page">
+          <Link href="/" className="family-back-link">
+            Back
+          </Link>
+          <div className="shop-banner">
+            <h1>Shop</h1>
+            {shop ? <MemberAvatar name="You" avatar={shop.avatar} size={56} /> : null}
+            {shop ? (
+              <span className="inline-flex items-center gap-1 text-lg font-semibold text-amber-300">
+                <span aria-hidden="true">🪙</span>
+                {shop.balance}
+              </span>
+            ) : null}
+          </div>
+          {isLoading ? <p className="small">Loading shop...</p> : null}
+          {error ? <p className="small family-error">Shop error: {error}</p> : null}
+          {!isLoading && shop ? (
+            <>
+              <div className="member-actions">
+                {CATEGORY_TABS.map((tab) => (
+                  <button
+                    key={tab.label}
+                    type="button"
+                    className={
+                      category === tab.value
+                        ? "btn btn-primary member-action-btn"
+                        : "btn btn-secondary member-action-btn"
+                    }
+                    onClick={() => setCategory(tab.value)}>
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+              <ul className="shop-grid">
+                {visibleItems.map((item) => (
+                  <li key={item.id} className={`shop-item shop-rarity-${item.rarity}`}>
+                    <ItemSprite sprite={item.sprite} size={88} label={item.name} />
+                    <strong>{item.name}</strong>
+                    <span className="small">{item.rarity}</span>
+                    {item.owned ? (
+                      <button
+                        type="button"
+                        className="btn btn-secondary member-action-btn"
+                        disabled={Boolean(equippingItemId)}
+                        onClick={() => onToggleEquip(item)}>
+                        {equippingItemId === item.id
+                          ? "Saving..."
+                          : shop.avatar[SLOT_BY_CATEGORY[item.category]] === item.id
+                            ? "Unequip"
+                            : "Equip"}
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        className="btn btn-secondary member-action-btn"
+                        disabled={Boolean(purchasingItemId) || shop.balance < item.price}
+                        onClick={() => onPurchase(item.id)}>
+                        {purchasingItemId === item.id ? "Buying..." : `🪙 ${item.price}`}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 "use client";
 
 import { FormEvent, KeyboardEvent, useEffect, useMemo, useState } from "react";
+import {
+  CHORE_DIFFICULTIES,
+  type ChoreDifficulty,
+  DEFAULT_DIFFICULTY_PRESETS,
+  type DifficultyPresets,
+  MAX_CHORE_COIN_VALUE,
+} from "@/lib/chores/difficulty";
+import { detectBrowserTimeZone, localDateInTimeZone } from "@/lib/family/timezone";
 
 type AddChoresDialogProps = {
   onCreated?: () => Promise<void> | void;
@@ -11,8 +19,14 @@ type Suggestion = {
   description: string;
   familyCount: number;
   globalCount: number;
+  lastCoinValue?: number;
+  lastDifficulty?: ChoreDifficulty;
 };
 
+type RewardChoice = ChoreDifficulty | "custom";
+
+type RepeatChoice = "none" | "daily" | "weekly" | "monthly";
+
 type FamilyMemberOption = {
   id: string;
   uid?: string;
@@ -22,8 +36,24 @@ type FamilyMemberOption = {
 
 const LAST_ASSIGNEE_STORAGE_KEY = "chores_last_assignee_id";
 
-function todayIsoDate() {
-  return new Date().toISOString().slice(0, 10);
+const DIFFICULTY_LABELS: Record<ChoreDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+function todayIsoDate(timeZone = detectBrowserTimeZone()) {
+  return localDateInTimeZone(timeZone);
+}
+
+function recurrenceFor(repeat: RepeatChoice, startDate: string) {
+  if (repeat === "weekly") {
+    return { kind: "weekly", weekdays: [new Date(`${startDate}T00:00:00Z`).getUTCDay()] };
+  }
+  if (repeat === "monthly") {
+    return { kind: "monthly", dayOfMonth: Number(startDate.slice(8, 10)) };
+  }
+  return { kind: "daily" };
 }
 
 function normalizeError(error: unknown) {
@@ -70,6 +100,11 @@ export function AddChoresDialog({
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
   const [members, setMembers] = useState<FamilyMemberOption[]>([]);
   const [assigneeHydrated, setAssigneeHydrated] = useState(false);
+  const [presets, setPresets] = useState<DifficultyPresets>(DEFAULT_DIFFICULTY_PRESETS);
+  const [reward, setReward] = useState<RewardChoice>("medium");
+  const [customCoinValue, setCustomCoinValue] = useState("");
+  const [repeat, setRepeat] = useState<RepeatChoice>("none");
+  const [familyTimeZone, setFamilyTimeZone] = useState("");
 
   const assigneeOptions = useMemo(
     () =>
@@ -112,7 +147,14 @@ export function AddChoresDialog({
     const payload = (await response.json()) as {
       members?: FamilyMemberOption[];
       viewerUid?: string;
+      family?: { timezone: string } | null;
     };
+    // Due dates default to "today" where the family lives, not where this browser is.
+    if (payload.family?.timezone) {
+      const timeZone = payload.family.timezone;
+      setFamilyTimeZone(timeZone);
+      setDueDate((current) => (current === todayIsoDate() ? todayIsoDate(timeZone) : current));
+    }
     const allMembers = payload.members ?? [];
     setMembers(allMembers);
     const stickyAssigneeId = readLastAssigneeId();
@@ -124,12 +166,22 @@ export function AddChoresDialog({
     setAssigneeHydrated(true);
   }
 
+  async function loadPresets() {
+    const response = await fetch("/api/family/difficulty-presets", { cache: "no-store" });
+    if (!response.ok) {
+      const body = (await response.json()) as { error?: string };
+      throw new Error(body.error ?? `PRESETS_HTTP_${response.status}`);
+    }
+    const payload = (await response.json()) as { presets?: DifficultyPresets };
+    setPresets(payload.presets ?? DEFAULT_DIFFICULTY_PRESETS);
+  }
+
   useEffect(() => {
     if (!open) {
       return;
     }
     setAssigneeHydrated(false);
-    void Promise.all([loadSuggestions(), loadMembers()]).catch((loadError) => {
+    void Promise.all([loadSuggestions(), loadMembers(), loadPresets()]).catch((loadError) => {
       setError(normalizeError(loadError));
     });
   }, [open]);
@@ -166,19 +218,46 @@ export function AddChoresDialog({
       return;
     }
 
+    const coinValue = Number(customCoinValue);
+    if (
+      reward === "custom" &&
+      (!Number.isInteger(coinValue) || coinValue < 1 || coinValue > MAX_CHORE_COIN_VALUE)
+    ) {
+      setError("invalid_coin_value");
+      return;
+    }
+
+    const rewardFields = reward === "custom" ? { coinValue } : { difficulty: reward };
+    const repeating = showAdditionalOptions && repeat !== "none";
+
     setSaving(true);
     setError("");
     try {
-      const response = await fetch("/api/chores", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          description: normalizedDescription,
-          assigneeId,
-          dueDate: showAdditionalOptions ? dueDate : undefined,
-          details: showAdditionalOptions ? details : "",
-        }),
-      });
+      // Repeating chores become a schedule, which generates the first instances itself.
+      const response = repeating
+        ? await fetch("/api/chores/schedules", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              title: normalizedDescription,
+              assigneeId,
+              ...rewardFields,
+              recurrence: recurrenceFor(repeat, dueDate),
+              startDate: dueDate,
+              details,
+            }),
+          })
+        : await fetch("/api/chores", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              description: normalizedDescription,
+              assigneeId,
+              ...rewardFields,
+              dueDate: showAdditionalOptions ? dueDate : undefined,
+              details: showAdditionalOptions ? details : "",
+            }),
+          });
       if (!response.ok) {
         const body = (await response.json()) as { error?: string };
         throw new Error(body.error ?? `CREATE_CHORES_HTTP_${response.status}`);
@@ -189,8 +268,11 @@ export function AddChoresDialog({
       setShowSuggestionMenu(false);
       setActiveSuggestionIndex(-1);
       setAssigneeId("");
-      setDueDate(todayIsoDate());
+      setDueDate(todayIsoDate(familyTimeZone || undefined));
       setDetails("");
+      setReward("medium");
+      setCustomCoinValue("");
+      setRepeat("none");
       setShowAdditionalOptions(false);
       if (onCreated) {
         await onCreated();
@@ -202,8 +284,14 @@ export function AddChoresDialog({
     }
   }
 
-  function applySuggestion(value: string) {
-    setDescription(value);
+  function applySuggestion(suggestion: Suggestion) {
+    setDescription(suggestion.description);
+    if (suggestion.lastDifficulty) {
+      setReward(suggestion.lastDifficulty);
+    } else if (suggestion.lastCoinValue) {
+      setReward("custom");
+      setCustomCoinValue(String(suggestion.lastCoinValue));
+    }
     setShowSuggestionMenu(false);
     setActiveSuggestionIndex(-1);
   }
@@ -235,7 +323,7 @@ export function AddChoresDialog({
       const selected = filteredSuggestions[Math.max(activeSuggestionIndex, 0)];
       if (selected) {
         event.preventDefault();
-        applySuggestion(selected.description);
+        applySuggestion(selected);
       }
     }
   }
@@ -279,7 +367,7 @@ export function AddChoresDialog({
                             }`}
                             onMouseDown={(event) => {
                               event.preventDefault();
-                              applySuggestion(suggestion.description);
+                              applySuggestion(suggestion);
                             }}>
                             {suggestion.description}
                           </button>
@@ -305,6 +393,39 @@ export function AddChoresDialog({
                 </select>
               </label>
 
+              <div className="flex w-full flex-col gap-1.5">
+                <span className="text-sm font-medium text-slate-700">Reward</span>
+                <div className="flex flex-wrap gap-2">
+                  {[...CHORE_DIFFICULTIES, "custom" as const].map((choice) => (
+                    <button
+                      key={choice}
+                      type="button"
+                      aria-pressed={reward === choice}
+                      className={`h-9 rounded-md border px-3 text-sm font-semibold ${
+                        reward === choice
+                          ? "border-amber-300 bg-amber-50 text-amber-700"
+                          : "border-slate-300 text-slate-700"
+                      }`}
+                      onClick={() => setReward(choice)}>
+                      {choice === "custom"
+                        ? "Custom"
+                        : `${DIFFICULTY_LABELS[choice]} · 🪙 ${presets[choice]}`}
+                    </button>
+                  ))}
+                </div>
+                {reward === "custom" ? (
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_CHORE_COIN_VALUE}
+                    value={customCoinValue}
+                    onChange={(event) => setCustomCoinValue(event.target.value)}
+                    placeholder="Coins"
+                    className="h-10 w-32 rounded-md border border-slate-300 px-3 py-2 text-slate-800 placeholder:text-slate-400"
+                  />
+                ) : null}
+              </div>
+
               <button
                 type="button"
                 className="self-start text-sm font-semibold text-[#1f69b7] hover:underline"
@@ -324,6 +445,19 @@ export function AddChoresDialog({
                     />
                   </label>
 
+                  <label className="flex w-full flex-col gap-1.5">
+                    <span className="text-sm font-medium text-slate-700">Repeats</span>
+                    <select
+                      value={repeat}
+                      onChange={(event) => setRepeat(event.target.value as RepeatChoice)}
+                      className="h-10 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-800">
+                      <option value="none">Does not repeat</option>
+                      <option value="daily">Every day</option>
+                      <option value="weekly">Every week on this weekday</option>
+                      <option value="monthly">Every month on this day</option>
+                    </select>
+                  </label>
+
                   <label className="flex w-full flex-col gap-1.5">
                     <span className="text-sm font-medium text-slate-700">Additional Details</span>
                     <textarea
@@ -0,0 +1,141 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+type ChoreReviewActionsProps = {
+  choreId: string;
+  status: string;
+  assigneeId?: string;
+  viewerUid: string;
+  viewerRole: "admin" | "player";
+  onChanged?: () => Promise<void> | void;
+};
+
+type ChoreAction = "submit" | "approve" | "reject";
+
+export function ChoreReviewActions({
+  choreId,
+  status,
+  assigneeId,
+  viewerUid,
+  viewerRole,
+  onChanged,
+}: ChoreReviewActionsProps) {
+  const [loadingAction, setLoadingAction] = useState<ChoreAction | null>(null);
+  const [error, setError] = useState("");
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [rejectNote, setRejectNote] = useState("");
+  const canSubmit =
+    (status === "Open" || status === "Rejected") &&
+    (!assigneeId || assigneeId === viewerUid);
+  const canReview = viewerRole === "admin" && status === "Submitted";
+
+  async function runAction(action: ChoreAction, note = "") {
+    if (loadingAction) {
+      return;
+    }
+    setError("");
+    setLoadingAction(action);
+    try {
+      const response = await fetch(`/api/chores/${choreId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(note ? { note } : {}),
+      });
+      if (!response.ok) {
+        const body = (await response.json()) as { error?: string };
+        throw new Error(body.error ?? `${action.toUpperCase()}_CHORE_HTTP_${response.status}`);
+      }
+      setShowRejectDialog(false);
+      setRejectNote("");
+      if (onChanged) {
+        await onChanged();
+      }
+    } catch (actionError) {
+      const message = actionError instanceof Error ? actionError.message : `${action}_chore_failed`;
+      setError(message);
+    } finally {
+      setLoadingAction(null);
+    }
+  }
+
+  function onRejectSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void runAction("reject", rejectNote.trim());
+  }
+
+  if (!canSubmit && !canReview) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="member-actions">
+        {canSubmit ? (
+          <button
+            type="button"
+            className="btn btn-secondary member-action-btn"
+            disabled={Boolean(loadingAction)}
+            onClick={() => void runAction("submit")}>
+            {loadingAction === "submit" ? "Working..." : "Mark done"}
+          </button>
+        ) : null}
+        {canReview ? (
+          <>
+            <button
+              type="button"
+              className="btn btn-secondary member-action-btn"
+              disabled={Boolean(loadingAction)}
+              onClick={() => void runAction("approve")}>
+              {loadingAction === "approve" ? "Working..." : "Approve"}
+            </button>
+            <button
+              type="button"
+              className="btn member-action-remove"
+              disabled={Boolean(loadingAction)}
+              onClick={() => setShowRejectDialog(true)}>
+              Reject
+            </button>
+          </>
+        ) : null}
+      </div>
+      {error ? <span className="family-error">Chore update failed: {error}</span> : null}
+
+      {showRejectDialog ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/45 p-4">
+          <div className="w-full max-w-md rounded-xl border border-slate-200 bg-white p-5 shadow-2xl">
+            <h3 className="mb-3 text-lg font-bold text-slate-800">Send Back Chore</h3>
+            <form className="flex w-full flex-col gap-3" onSubmit={onRejectSubmit}>
+              <label className="flex w-full flex-col gap-1.5">
+                <span className="text-sm font-medium text-slate-700">Feedback (optional)</span>
+                <textarea
+                  rows={3}
+                  maxLength={500}
+                  value={rejectNote}
+                  onChange={(event) => setRejectNote(event.target.value)}
+                  placeholder="The dishes still need drying..."
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-slate-800 placeholder:text-slate-400"
+                />
+              </label>
+              <div className="mt-1 flex justify-end gap-2">
+                <button
+                  type="button"
+                  className="h-10 rounded-md border border-slate-300 px-3 text-sm font-semibold text-slate-700"
+                  disabled={Boolean(loadingAction)}
+                  onClick={() => setShowRejectDialog(false)}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="h-10 rounded-md border border-red-300 bg-red-50 px-3 text-sm font-semibold text-red-700"
+                  disabled={Boolean(loadingAction)}>
+                  {loadingAction === "reject" ? "Sending..." : "Reject"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -3,7 +3,12 @@
 import Link from "next/link";
 import { Dispatch, FormEvent, SetStateAction, useEffect, useState } from "react";
 import { AddChoresDialog } from "@/components/add-chores-dialog";
+import { ChoreReviewActions } from "@/components/chore-review-actions";
+import { MemberAvatar } from "@/components/member-avatar";
+import { detectBrowserTimeZone } from "@/lib/family/timezone";
 import type { FamilySummaryResponse } from "@/lib/family/types";
+import { useFamilyEvents } from "@/lib/realtime/use-family-events";
+import { reconnectSocket } from "@/lib/ws";
 
 type AddMemberState = {
   name: string;
@@ -145,9 +150,12 @@ export function FamilyCard() {
   const canManageMembers = viewerMember?.role === "admin";
   const shouldShowAddMemberModal = showAddMemberForm;
 
-  async function loadSummary() {
-    setIsLoading(true);
-    setError("");
+  // Live updates refetch silently so the card does not flash its loading state.
+  async function loadSummary({ silent = false }: { silent?: boolean } = {}) {
+    if (!silent) {
+      setIsLoading(true);
+      setError("");
+    }
     try {
       const response = await fetch("/api/family/summary", { cache: "no-store" });
       if (!response.ok) {
@@ -161,7 +169,9 @@ export function FamilyCard() {
         loadError instanceof Error ? loadError.message : "summary_unavailable";
       setError(message);
     } finally {
-      setIsLoading(false);
+      if (!silent) {
+        setIsLoading(false);
+      }
     }
   }
 
@@ -169,6 +179,16 @@ export function FamilyCard() {
     void loadSummary();
   }, []);
 
+  useFamilyEvents(() => {
+    void loadSummary({ silent: true });
+  });
+
+  // Rooms are fixed at handshake time, so joining or creating a family needs a new ticket.
+  const familyRoomKey = `${summary?.family?.id ?? ""}:${summary?.pendingInvite ? "pending" : ""}`;
+  useEffect(() => {
+    reconnectSocket();
+  }, [familyRoomKey]);
+
   async function onSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (saving) {
@@ -181,7 +201,7 @@ export function FamilyCard() {
       const response = await fetch("/api/family/members", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(form),
+        body: JSON.stringify({ ...form, timezone: detectBrowserTimeZone() }),
       });
       if (!response.ok) {
         const body = (await response.json()) as { error?: string };
@@ -396,6 +416,7 @@ export function FamilyCard() {
                       <li key={member.id}>
                         <div className="flex items-center justify-between gap-2">
                           <div className="flex items-center gap-2">
+                            <MemberAvatar name={member.name} avatar={member.avatar} size={32} />
                             <strong>{member.name}</strong>
                             <span
                               title={member.role === "admin" ? "Admin" : "Player"}
@@ -403,6 +424,14 @@ export function FamilyCard() {
                               className="inline-flex h-5 w-5 items-center justify-center rounded-full border border-slate-200 bg-slate-50 text-xs leading-none">
                               {member.role === "admin" ? "\u{1F451}" : "\u{1F9F8}"}
                             </span>
+                            {member.status === "active" ? (
+                              <span
+                                title="Coin balance"
+                                className="inline-flex items-center gap-1 text-sm font-semibold text-amber-600">
+                                <span aria-hidden="true">🪙</span>
+                                {member.coinBalance}
+                              </span>
+                            ) : null}
                           </div>
                           <span
                             className={
@@ -495,6 +524,7 @@ export function FamilyCard() {
                             <strong>{chore.title}</strong>
                             <span>{chore.assigneeName}</span>
                             <span>{chore.status}</span>
+                            {chore.reviewNote ? <span>Feedback: {chore.reviewNote}</span> : null}
                           </div>
                           <div className="flex items-center gap-2">
                             <span className="inline-flex items-center gap-1 text-sm font-semibold text-amber-600">
@@ -512,6 +542,14 @@ export function FamilyCard() {
                             </button>
                           </div>
                         </div>
+                        <ChoreReviewActions
+                          choreId={chore.id}
+                          status={chore.status}
+                          assigneeId={chore.assigneeId}
+                          viewerUid={summary.viewerUid}
+                          viewerRole={viewerMember?.role ?? "player"}
+                          onChanged={loadSummary}
+                        />
                       </li>
                     ))}
                   </ul>
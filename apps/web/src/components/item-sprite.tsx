@@ -0,0 +1,29 @@
+import { SPRITE_SHEET_LAYOUT, type ShopItemSprite } from "@/lib/shop/catalog";
+
+type ItemSpriteProps = {
+  sprite: ShopItemSprite;
+  size?: number;
+  label?: string;
+  className?: string;
+};
+
+export function ItemSprite({ sprite, size = 64, label, className }: ItemSpriteProps) {
+  const scale = size / SPRITE_SHEET_LAYOUT.cellWidth;
+  return (
+    <span
+      role={label ? "img" : undefined}
+      aria-label={label}
+      aria-hidden={label ? undefined : true}
+      className={className ? `item-sprite ${className}` : "item-sprite"}
+      style={{
+        width: size,
+        height: SPRITE_SHEET_LAYOUT.cellHeight * scale,
+        backgroundImage: `url(${sprite.sheet})`,
+        backgroundSize: `${SPRITE_SHEET_LAYOUT.width * scale}px ${SPRITE_SHEET_LAYOUT.height * scale}px`,
+        backgroundPosition: `-${sprite.column * SPRITE_SHEET_LAYOUT.cellWidth * scale}px -${
+          sprite.row * SPRITE_SHEET_LAYOUT.cellHeight * scale
+        }px`,
+      }}
+    />
+  );
+}
@@ -0,0 +1,54 @@
+import { ItemSprite } from "@/components/item-sprite";
+import { getShopItem } from "@/lib/shop/catalog";
+import type { AvatarLoadout } from "@/lib/shop/avatar";
+
+type MemberAvatarProps = {
+  name: string;
+  avatar?: AvatarLoadout;
+  size?: number;
+};
+
+export function MemberAvatar({ name, avatar, size = 40 }: MemberAvatarProps) {
+  const body = avatar?.body ? getShopItem(avatar.body) : null;
+  const head = avatar?.head ? getShopItem(avatar.head) : null;
+  const accessory = avatar?.accessory ? getShopItem(avatar.accessory) : null;
+  const pet = avatar?.pet ? getShopItem(avatar.pet) : null;
+  const initial = name.trim().charAt(0).toUpperCase() || "?";
+
+  return (
+    <span
+      className="member-avatar"
+      style={{ width: size, height: size }}
+      role="img"
+      aria-label={`${name}'s avatar`}>
+      {body ? (
+        <ItemSprite sprite={body.sprite} size={size} className="member-avatar-layer" />
+      ) : (
+        <span className="member-avatar-initial" aria-hidden="true">
+          {initial}
+        </span>
+      )}
+      {accessory ? (
+        <ItemSprite
+          sprite={accessory.sprite}
+          size={size * 0.55}
+          className="member-avatar-layer member-avatar-accessory"
+        />
+      ) : null}
+      {head ? (
+        <ItemSprite
+          sprite={head.sprite}
+          size={size * 0.7}
+          className="member-avatar-layer member-avatar-head"
+        />
+      ) : null}
+      {pet ? (
+        <ItemSprite
+          sprite={pet.sprite}
+          size={size * 0.5}
+          className="member-avatar-layer member-avatar-pet"
+        />
+      ) : null}
+    </span>
+  );
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { FirebaseRefreshError } from "@/lib/auth/firebase-refresh";
+import { clearSessionUserCookie } from "@/lib/auth/session-cookie";
+import { SessionRevokedError } from "@/lib/auth/session-registry";
+import {
+  FirestoreDatabaseMissingError,
+  FirestorePermissionDeniedError,
+  FirestoreUnauthenticatedError,
+} from "@/lib/firestore/errors";
+
+export function jsonUnauthorized() {
+  return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+}
+
+export function jsonReauthRequired() {
+  return NextResponse.json(
+    {
+      error: "reauth_required",
+      message: "Please sign out and sign in again to refresh your session.",
+    },
+    { status: 401 },
+  );
+}
+
+/** The caller is signed in but their family role does not allow the action. */
+export function jsonNotAllowed() {
+  return NextResponse.json({ error: "not_allowed" }, { status: 403 });
+}
+
+export function jsonFirestoreForbidden() {
+  return NextResponse.json(
+    {
+      error: "firestore_forbidden",
+      message:
+        "Authenticated user does not have access to Firestore documents under current rules.",
+    },
+    { status: 403 },
+  );
+}
+
+export function jsonFirestoreNotConfigured() {
+  return NextResponse.json(
+    {
+      error: "firestore_not_configured",
+      message:
+        "Cloud Firestore default database is not configured for this project.",
+    },
+    { status: 503 },
+  );
+}
+
+/**
+ * Maps the Firestore and token-refresh failures every route handles the same way. Returns
+ * null for anything else so the route can add its own cases before falling back to a 500.
+ */
+export function mapCommonFirestoreErrors(error: unknown) {
+  if (error instanceof SessionRevokedError) {
+    const response = jsonReauthRequired();
+    clearSessionUserCookie(response);
+    return response;
+  }
+  if (error instanceof FirestoreUnauthenticatedError || error instanceof FirebaseRefreshError) {
+    return jsonReauthRequired();
+  }
+  if (error instanceof FirestorePermissionDeniedError) {
+    return jsonFirestoreForbidden();
+  }
+  if (error instanceof FirestoreDatabaseMissingError) {
+    return jsonFirestoreNotConfigured();
+  }
+  return null;
+}
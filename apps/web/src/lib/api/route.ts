@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  jsonNotAllowed,
+  jsonReauthRequired,
+  jsonUnauthorized,
+  mapCommonFirestoreErrors,
+} from "@/lib/api/responses";
+import { runWithRefreshedFirebaseToken } from "@/lib/auth/firebase-refresh";
+import { getSessionFromRequest } from "@/lib/auth/request-session";
+import type { SessionUser } from "@/lib/auth/session";
+import { setSessionUserCookie } from "@/lib/auth/session-cookie";
+import {
+  familiesInPreferenceOrder,
+  getUserFamilyIds,
+  isFamilyAvailable,
+} from "@/lib/family/membership";
+import {
+  type FamilyPermission,
+  type MemberRole,
+  roleHasPermission,
+  toMemberRole,
+} from "@/lib/family/permissions";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  type FirestoreFields,
+  getDocument,
+  readBoolean,
+  readString,
+} from "@/lib/firestore/rest";
+
+type RouteParams = Record<string, string>;
+
+type RouteContext<P extends RouteParams> = { params: Promise<P> };
+
+export type SessionContext<P extends RouteParams = RouteParams> = {
+  request: NextRequest;
+  params: P;
+  session: SessionUser;
+  idToken: string;
+  /** Parses the JSON body once, so a retry after a token refresh can read it again. */
+  readJson<T>(): Promise<T | null>;
+  /** Merges fields into the session cookie written with the response. */
+  updateSession(changes: Partial<Pick<SessionUser, "activeFamilyId">>): void;
+};
+
+export type FamilyContext<P extends RouteParams = RouteParams> = SessionContext<P> & {
+  familyId: string;
+  member: { id: string; role: MemberRole; fields: FirestoreFields };
+};
+
+export type RouteOptions = {
+  /** Log tag for unexpected failures, e.g. "FAMILY_TIMEZONE_ERROR". */
+  errorTag: string;
+  /** Error code of the 500 response for unexpected failures. */
+  failureError: string;
+  /** Error code of the 404 response when a document read by the handler does not exist. */
+  notFoundError?: string;
+};
+
+export type FamilyRouteOptions = RouteOptions & {
+  /** Members whose role lacks this permission get `not_allowed`. */
+  permission?: FamilyPermission;
+};
+
+/**
+ * Wraps a handler with the session check, an auto-refreshing Firebase ID token and the
+ * cookie rewrite after a refresh. The handler runs again after a refresh, so it must not
+ * consume the request body directly; use `readJson` instead.
+ */
+export function withSession<P extends RouteParams = RouteParams>(
+  options: RouteOptions,
+  handler: (context: SessionContext<P>) => Promise<NextResponse>,
+) {
+  return async (request: NextRequest, routeContext?: RouteContext<P>) => {
+    const session = getSessionFromRequest(request);
+    if (!session?.uid) {
+      return jsonUnauthorized();
+    }
+    if (!session.firebaseIdToken && !session.firebaseRefreshToken) {
+      return jsonReauthRequired();
+    }
+
+    const params = ((await routeContext?.params) ?? {}) as P;
+    let body: Promise<unknown> | null = null;
+    const readJson = <T>() => {
+      body ??= request.json().catch(() => null);
+      return body as Promise<T | null>;
+    };
+    const sessionChanges: Partial<SessionUser> = {};
+    const updateSession = (changes: Partial<SessionUser>) => {
+      Object.assign(sessionChanges, changes);
+    };
+
+    try {
+      const { data: response, session: refreshedSession, refreshed } =
+        await runWithRefreshedFirebaseToken(session, (idToken) =>
+          handler({ request, params, session, idToken, readJson, updateSession }),
+        );
+      if (refreshed || Object.keys(sessionChanges).length > 0) {
+        setSessionUserCookie(response, { ...refreshedSession, ...sessionChanges });
+      }
+      return response;
+    } catch (error) {
+      const reason =
+        error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+      console.error(`[${options.errorTag}]`, reason);
+      const mapped = mapCommonFirestoreErrors(error);
+      if (mapped) {
+        return mapped;
+      }
+      if (options.notFoundError && error instanceof FirestoreNotFoundError) {
+        return NextResponse.json({ error: options.notFoundError }, { status: 404 });
+      }
+      return NextResponse.json({ error: options.failureError }, { status: 500 });
+    }
+  };
+}
+
+async function readOptionalDocument(path: string, idToken: string) {
+  try {
+    return await getDocument(path, idToken);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * `withSession` plus the caller's active family and member doc. Deleted families are skipped.
+ * Callers without a family get `family_not_found`; callers removed from every family they
+ * list and roles without `options.permission` get `not_allowed`.
+ */
+export function withFamily<P extends RouteParams = RouteParams>(
+  options: FamilyRouteOptions,
+  handler: (context: FamilyContext<P>) => Promise<NextResponse>,
+) {
+  return withSession<P>(options, async (context) => {
+    const { session, idToken } = context;
+    const familyIds = await getUserFamilyIds(session.uid, idToken);
+    if (familyIds.length === 0) {
+      return NextResponse.json({ error: "family_not_found" }, { status: 404 });
+    }
+
+    let membership: { familyId: string; fields: FirestoreFields } | null = null;
+    for (const candidate of familiesInPreferenceOrder(familyIds, session.activeFamilyId)) {
+      const memberDoc = await readOptionalDocument(
+        `families/${candidate}/members/${session.uid}`,
+        idToken,
+      );
+      if (
+        memberDoc &&
+        !readBoolean(memberDoc.fields, "deleted") &&
+        (await isFamilyAvailable(candidate, idToken))
+      ) {
+        membership = { familyId: candidate, fields: memberDoc.fields ?? {} };
+        break;
+      }
+    }
+    if (!membership) {
+      return jsonNotAllowed();
+    }
+    const { familyId } = membership;
+    const role = toMemberRole(readString(membership.fields, "role"));
+    if (options.permission && !roleHasPermission(role, options.permission)) {
+      return jsonNotAllowed();
+    }
+
+    return handler({
+      ...context,
+      familyId,
+      member: { id: session.uid, role, fields: membership.fields },
+    });
+  });
+}
@@ -0,0 +1,413 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  scrypt,
+  timingSafeEqual,
+} from "node:crypto";
+import { promisify } from "node:util";
+import type { SessionUser } from "@/lib/auth/session";
+import { createSessionRecord, type SessionClient } from "@/lib/auth/session-registry";
+import { isFamilyAvailable } from "@/lib/family/membership";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  createOrReplaceDocument,
+  documentIdFromName,
+  DOCUMENT_MUST_NOT_EXIST,
+  type FirestoreFields,
+  getDocument,
+  integerField,
+  nullField,
+  readBoolean,
+  runTransaction,
+  setDocumentWrite,
+  stringArrayField,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+/**
+ * Child profiles sign in without an email address. Each one is backed by a Firebase
+ * email/password account whose address and password are derived from a random account key,
+ * so only this server can sign in as the child; the PIN or pairing code just unlocks that.
+ */
+
+type IdentityToolkitSession = {
+  localId: string;
+  idToken: string;
+  refreshToken: string;
+};
+
+export type ChildLogin = {
+  memberId: string;
+  name: string;
+  accountKey: string;
+  pinHash: string;
+  failedAttempts: number;
+  lockedUntil?: string;
+};
+
+export type PinCheckResult =
+  | { kind: "ok"; login: ChildLogin }
+  | { kind: "not_found" }
+  | { kind: "pin_not_set" }
+  | { kind: "invalid_pin"; attemptsLeft: number }
+  | { kind: "locked"; lockedUntil: string };
+
+export type PairingCodeResult =
+  | { kind: "ok"; familyId: string; memberId: string }
+  | { kind: "invalid_code" };
+
+const CHILD_ACCOUNT_DOMAIN = "children.chores-game.invalid";
+const PIN_PATTERN = /^\d{4,6}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+// No 0/O or 1/I, so a code read off a screen cannot be mistyped.
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 8;
+export const PAIRING_CODE_TTL_SECONDS = 10 * 60;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const childLoginSchema = {
+  name: field.string("Player"),
+  accountKey: field.string(),
+  pinHash: field.string(),
+  failedAttempts: field.integer(),
+  lockedUntil: field.optional(field.timestamp()),
+};
+
+const pairingCodeSchema = {
+  familyId: field.string(),
+  memberId: field.string(),
+  expiresAt: field.timestamp(),
+  used: field.boolean(),
+};
+
+export function childLoginsPath(familyId: string) {
+  return `families/${familyId}/childLogins`;
+}
+
+export function decodeChildLogin(doc: { name: string; fields?: FirestoreFields }): ChildLogin {
+  return { memberId: documentIdFromName(doc.name), ...decodeFields(doc.fields, childLoginSchema) };
+}
+
+function getChildAccountSecret() {
+  const secret = process.env.CHILD_ACCOUNT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("CHILD_ACCOUNT_SECRET_MISSING");
+  }
+  return secret;
+}
+
+function childAccountCredentials(accountKey: string) {
+  return {
+    email: `${accountKey}@${CHILD_ACCOUNT_DOMAIN}`,
+    password: createHmac("sha256", getChildAccountSecret())
+      .update(`child-account:${accountKey}`)
+      .digest("base64url"),
+  };
+}
+
+async function postIdentityToolkit(
+  method: "signUp" | "signInWithPassword" | "delete",
+  body: object,
+) {
+  const apiKey = process.env.FIREBASE_WEB_API_KEY;
+  if (!apiKey) {
+    throw new Error("FIREBASE_API_KEY_MISSING");
+  }
+
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:${method}?key=${apiKey}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // accounts:delete rejects fields it does not know.
+      body: JSON.stringify(method === "delete" ? body : { ...body, returnSecureToken: true }),
+      cache: "no-store",
+    },
+  );
+
+  if (!response.ok) {
+    let detail = "";
+    try {
+      const json = (await response.json()) as { error?: { message?: string } };
+      detail = json.error?.message ?? "";
+    } catch {
+      detail = "";
+    }
+    throw new Error(
+      `CHILD_ACCOUNT_${method.toUpperCase()}_FAILED_${response.status}${detail ? `_${detail}` : ""}`,
+    );
+  }
+
+  return (await response.json()) as IdentityToolkitSession;
+}
+
+/** Creates the Firebase account behind a new child profile. */
+export async function createChildAccount() {
+  const accountKey = randomUUID();
+  const session = await postIdentityToolkit("signUp", childAccountCredentials(accountKey));
+  return { accountKey, ...session };
+}
+
+/**
+ * Removes a child account that never got linked to a profile, e.g. because the batch that
+ * creates the member doc failed. Best effort: the account is unusable without its key anyway.
+ */
+export async function deleteChildAccount(childIdToken: string) {
+  try {
+    await postIdentityToolkit("delete", { idToken: childIdToken });
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.message ? error.message.slice(0, 180) : "unknown";
+    console.error("[CHILD_ACCOUNT_CLEANUP_ERROR]", reason);
+  }
+}
+
+export function isValidPin(value: unknown): value is string {
+  return typeof value === "string" && PIN_PATTERN.test(value);
+}
+
+export async function hashPin(pin: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, 32);
+  return `scrypt.${salt.toString("base64url")}.${hash.toString("base64url")}`;
+}
+
+async function verifyPin(pin: string, stored: string) {
+  const [scheme, salt, hash] = stored.split(".");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(pin, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Writes the child's own user doc (with the child's token, as rules require) so their
+ * session resolves to the family like any other member's.
+ */
+export async function linkChildAccountToFamily(
+  uid: string,
+  familyId: string,
+  childIdToken: string,
+) {
+  const now = new Date().toISOString();
+  await createOrReplaceDocument(
+    `users/${uid}`,
+    {
+      uid: stringField(uid),
+      role: stringField("player"),
+      accountType: stringField("child"),
+      familyIds: stringArrayField([familyId]),
+      lastFamilyUpdateAt: timestampField(now),
+    },
+    childIdToken,
+  );
+}
+
+export function childLoginWrite(
+  familyId: string,
+  memberId: string,
+  login: { name: string; accountKey: string; pinHash: string },
+  now: string,
+) {
+  return setDocumentWrite(`${childLoginsPath(familyId)}/${memberId}`, {
+    name: stringField(login.name),
+    accountKey: stringField(login.accountKey),
+    pinHash: stringField(login.pinHash),
+    failedAttempts: integerField(0),
+    lockedUntil: nullField(),
+    createdAt: timestampField(now),
+    updatedAt: timestampField(now),
+  });
+}
+
+export function resetPinWrite(familyId: string, memberId: string, pinHash: string, now: string) {
+  return updateDocumentWrite(`${childLoginsPath(familyId)}/${memberId}`, {
+    pinHash: stringField(pinHash),
+    failedAttempts: integerField(0),
+    lockedUntil: nullField(),
+    updatedAt: timestampField(now),
+  });
+}
+
+/**
+ * Checks a PIN with the service account's token. Failures are counted on the login doc and
+ * lock the profile for a few minutes once `MAX_PIN_ATTEMPTS` is reached.
+ */
+export async function checkChildPin(
+  familyId: string,
+  memberId: string,
+  pin: string,
+  serviceIdToken: string,
+) {
+  const path = `${childLoginsPath(familyId)}/${memberId}`;
+  return runTransaction<PinCheckResult>(serviceIdToken, async (tx) => {
+    const doc = await tx.get(path);
+    if (!doc) {
+      return { writes: [], result: { kind: "not_found" } };
+    }
+    const login = decodeChildLogin(doc);
+    const now = Date.now();
+    if (login.lockedUntil && Date.parse(login.lockedUntil) > now) {
+      return { writes: [], result: { kind: "locked", lockedUntil: login.lockedUntil } };
+    }
+    if (!login.pinHash) {
+      return { writes: [], result: { kind: "pin_not_set" } };
+    }
+
+    if (await verifyPin(pin, login.pinHash)) {
+      const writes =
+        login.failedAttempts > 0
+          ? [
+              updateDocumentWrite(path, {
+                failedAttempts: integerField(0),
+                lockedUntil: nullField(),
+              }),
+            ]
+          : [];
+      return { writes, result: { kind: "ok", login } };
+    }
+
+    // An expired lockout starts a fresh round of attempts.
+    const failedAttempts = (login.lockedUntil ? 0 : login.failedAttempts) + 1;
+    const locked = failedAttempts >= MAX_PIN_ATTEMPTS;
+    return {
+      writes: [
+        updateDocumentWrite(path, {
+          failedAttempts: integerField(locked ? 0 : failedAttempts),
+          lockedUntil: locked
+            ? timestampField(new Date(now + PIN_LOCKOUT_MS).toISOString())
+            : nullField(),
+        }),
+      ],
+      result: { kind: "invalid_pin", attemptsLeft: locked ? 0 : MAX_PIN_ATTEMPTS - failedAttempts },
+    };
+  });
+}
+
+function pairingCodePath(code: string) {
+  const digest = createHash("sha256").update(code).digest("hex");
+  return `pairingCodes/${digest}`;
+}
+
+export function normalizePairingCode(value: unknown) {
+  return typeof value === "string" ? value.replace(/[\s-]/g, "").toUpperCase() : "";
+}
+
+/** Issues a one-time code that signs the child in on whichever device redeems it first. */
+export async function createPairingCode(
+  familyId: string,
+  memberId: string,
+  actorUid: string,
+  idToken: string,
+) {
+  const code = Array.from(
+    { length: PAIRING_CODE_LENGTH },
+    () => PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)],
+  ).join("");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + PAIRING_CODE_TTL_SECONDS * 1000).toISOString();
+  // Only the hash is stored, so reading the collection never reveals a usable code.
+  await commitBatch(
+    [
+      setDocumentWrite(
+        pairingCodePath(code),
+        {
+          familyId: stringField(familyId),
+          memberId: stringField(memberId),
+          createdBy: stringField(actorUid),
+          createdAt: timestampField(now.toISOString()),
+          expiresAt: timestampField(expiresAt),
+          used: boolField(false),
+        },
+        DOCUMENT_MUST_NOT_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return { code, expiresAt };
+}
+
+export async function redeemPairingCode(code: string, serviceIdToken: string) {
+  const path = pairingCodePath(code);
+  return runTransaction<PairingCodeResult>(serviceIdToken, async (tx) => {
+    const doc = await tx.get(path);
+    if (!doc) {
+      return { writes: [], result: { kind: "invalid_code" } };
+    }
+    const pairing = decodeFields(doc.fields, pairingCodeSchema);
+    if (pairing.used || Date.parse(pairing.expiresAt) <= Date.now()) {
+      return { writes: [], result: { kind: "invalid_code" } };
+    }
+    return {
+      writes: [
+        updateDocumentWrite(path, {
+          used: boolField(true),
+          usedAt: timestampField(new Date().toISOString()),
+        }),
+      ],
+      result: { kind: "ok", familyId: pairing.familyId, memberId: pairing.memberId },
+    };
+  });
+}
+
+/**
+ * Login docs outlive the profile, so sign-in also checks that the child was not removed and
+ * that the family is not waiting out its deletion grace period.
+ */
+export async function isChildProfileActive(
+  familyId: string,
+  memberId: string,
+  serviceIdToken: string,
+) {
+  try {
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, serviceIdToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return false;
+    }
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+  return isFamilyAvailable(familyId, serviceIdToken);
+}
+
+/** Signs in as the child and registers the session, returning the cookie payload. */
+export async function startChildSession(login: ChildLogin, client: SessionClient) {
+  const account = await postIdentityToolkit(
+    "signInWithPassword",
+    childAccountCredentials(login.accountKey),
+  );
+  if (account.localId !== login.memberId) {
+    throw new Error("CHILD_ACCOUNT_UID_MISMATCH");
+  }
+
+  const sessionId = await createSessionRecord(account.localId, client, account.idToken);
+  return {
+    uid: account.localId,
+    role: "player",
+    email: "",
+    name: login.name,
+    picture: "",
+    sessionId,
+    firebaseIdToken: account.idToken,
+    firebaseRefreshToken: account.refreshToken,
+  } satisfies SessionUser;
+}
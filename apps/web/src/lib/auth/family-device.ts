@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSealedToken, parseSealedToken } from "@/lib/auth/session";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import { getDocument, readBoolean } from "@/lib/firestore/rest";
+
+/** A shared tablet an admin has set up to show the family's child sign-in screen. */
+export type FamilyDevice = {
+  kind: "family_device";
+  familyId: string;
+  deviceId: string;
+};
+
+const FAMILY_DEVICE_COOKIE = "family_device";
+const FAMILY_DEVICE_MAX_AGE_SECONDS = 60 * 60 * 24 * 180;
+
+export function familyDevicesPath(familyId: string) {
+  return `families/${familyId}/devices`;
+}
+
+export function setFamilyDeviceCookie(
+  response: NextResponse,
+  device: Omit<FamilyDevice, "kind">,
+) {
+  const payload: FamilyDevice = { kind: "family_device", ...device };
+  const value = createSealedToken(payload, FAMILY_DEVICE_MAX_AGE_SECONDS);
+  if (!value) {
+    throw new Error("SESSION_COOKIE_CONFIG_MISSING");
+  }
+
+  response.cookies.set(FAMILY_DEVICE_COOKIE, value, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: FAMILY_DEVICE_MAX_AGE_SECONDS,
+  });
+}
+
+export function getFamilyDeviceFromRequest(request: NextRequest): FamilyDevice | null {
+  const parsed = parseSealedToken<FamilyDevice>(request.cookies.get(FAMILY_DEVICE_COOKIE)?.value);
+  if (parsed?.kind !== "family_device" || !parsed.familyId || !parsed.deviceId) {
+    return null;
+  }
+  return { kind: parsed.kind, familyId: parsed.familyId, deviceId: parsed.deviceId };
+}
+
+/** False once an admin has unpaired the device, even though its cookie is still valid. */
+export async function isFamilyDeviceActive(device: FamilyDevice, serviceIdToken: string) {
+  try {
+    const deviceDoc = await getDocument(
+      `${familyDevicesPath(device.familyId)}/${device.deviceId}`,
+      serviceIdToken,
+    );
+    return !readBoolean(deviceDoc.fields, "revoked");
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -1,4 +1,6 @@
 import type { SessionUser } from "@/lib/auth/session";
+import { assertSessionActive } from "@/lib/auth/session-registry";
+import { FirestoreUnauthenticatedError } from "@/lib/firestore/errors";
 
 type FirebaseRefreshResponse = {
   id_token: string;
@@ -6,11 +8,15 @@ type FirebaseRefreshResponse = {
   user_id: string;
 };
 
-function isFirestoreUnauthorizedError(error: unknown) {
-  if (!(error instanceof Error)) {
-    return false;
+/** The refresh token was rejected, so the user has to sign in again. */
+export class FirebaseRefreshError extends Error {
+  readonly status: number;
+
+  constructor(status: number, detail: string) {
+    super(`FIREBASE_REFRESH_FAILED_${status}${detail ? `_${detail}` : ""}`);
+    this.name = "FirebaseRefreshError";
+    this.status = status;
   }
-  return error.message.includes("FIRESTORE_HTTP_401");
 }
 
 async function refreshFirebaseSession(session: SessionUser) {
@@ -42,9 +48,7 @@ async function refreshFirebaseSession(session: SessionUser) {
     } catch {
       detail = "";
     }
-    throw new Error(
-      `FIREBASE_REFRESH_FAILED_${response.status}${detail ? `_${detail}` : ""}`,
-    );
+    throw new FirebaseRefreshError(response.status, detail);
   }
 
   const refreshed = (await response.json()) as FirebaseRefreshResponse;
@@ -71,6 +75,7 @@ export async function runWithRefreshedFirebaseToken<T>(
     if (!token) {
       throw new Error("MISSING_FIREBASE_ID_TOKEN");
     }
+    await assertSessionActive(session, token);
     return work(token);
   };
 
@@ -79,7 +84,7 @@ export async function runWithRefreshedFirebaseToken<T>(
     return { data, session, refreshed: false as const };
   } catch (error) {
     if (
-      !isFirestoreUnauthorizedError(error) &&
+      !(error instanceof FirestoreUnauthenticatedError) &&
       !(error instanceof Error && error.message === "MISSING_FIREBASE_ID_TOKEN")
     ) {
       throw error;
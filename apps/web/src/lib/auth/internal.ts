@@ -0,0 +1,80 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+
+type FirebasePasswordSignInResponse = {
+  idToken: string;
+  localId: string;
+  expiresIn: string;
+};
+
+let cachedSchedulerToken: { idToken: string; expiresAt: number } | null = null;
+
+function getInternalSecret() {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret || secret.length < 32) {
+    return null;
+  }
+  return secret;
+}
+
+/** True when the request carries the shared secret used by the ws process. */
+export function isInternalRequest(request: NextRequest) {
+  const secret = getInternalSecret();
+  const header = request.headers.get("authorization") ?? "";
+  if (!secret || !header.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const expectedBuf = Buffer.from(secret);
+  const providedBuf = Buffer.from(header.slice("Bearer ".length));
+  return expectedBuf.length === providedBuf.length && timingSafeEqual(expectedBuf, providedBuf);
+}
+
+/**
+ * Signs in the dedicated scheduler account. Firestore rules recognize it through the
+ * `config/scheduler` document, which must hold the account's uid.
+ */
+export async function getSchedulerIdToken() {
+  if (cachedSchedulerToken && cachedSchedulerToken.expiresAt > Date.now()) {
+    return cachedSchedulerToken.idToken;
+  }
+
+  const apiKey = process.env.FIREBASE_WEB_API_KEY;
+  const email = process.env.SCHEDULER_EMAIL;
+  const password = process.env.SCHEDULER_PASSWORD;
+  if (!apiKey) {
+    throw new Error("FIREBASE_API_KEY_MISSING");
+  }
+  if (!email || !password) {
+    throw new Error("SCHEDULER_CREDENTIALS_MISSING");
+  }
+
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password, returnSecureToken: true }),
+      cache: "no-store",
+    },
+  );
+
+  if (!response.ok) {
+    let detail = "";
+    try {
+      const json = (await response.json()) as { error?: { message?: string } };
+      detail = json.error?.message ?? "";
+    } catch {
+      detail = "";
+    }
+    throw new Error(`SCHEDULER_SIGN_IN_FAILED_${response.status}${detail ? `_${detail}` : ""}`);
+  }
+
+  const signedIn = (await response.json()) as FirebasePasswordSignInResponse;
+  // Renew a minute early so a token never expires mid-run.
+  cachedSchedulerToken = {
+    idToken: signedIn.idToken,
+    expiresAt: Date.now() + (Number(signedIn.expiresIn) - 60) * 1000,
+  };
+  return signedIn.idToken;
+}
@@ -5,17 +5,27 @@ import {
   type SessionUser,
 } from "@/lib/auth/session";
 
+const SESSION_COOKIE_NAME = "session_user";
+
+function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  };
+}
+
 export function setSessionUserCookie(response: NextResponse, sessionUser: SessionUser) {
   const sessionValue = createSessionToken(sessionUser);
   if (!sessionValue) {
     throw new Error("SESSION_COOKIE_CONFIG_MISSING");
   }
 
-  response.cookies.set("session_user", sessionValue, {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
-    path: "/",
-    maxAge: SESSION_COOKIE_MAX_AGE,
-  });
+  response.cookies.set(SESSION_COOKIE_NAME, sessionValue, cookieOptions(SESSION_COOKIE_MAX_AGE));
+}
+
+export function clearSessionUserCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, "", cookieOptions(0));
 }
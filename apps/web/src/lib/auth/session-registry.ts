@@ -0,0 +1,253 @@
+import { randomUUID } from "node:crypto";
+import { SESSION_COOKIE_MAX_AGE, type SessionUser } from "@/lib/auth/session";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  createOrReplaceDocument,
+  DOCUMENT_MUST_EXIST,
+  documentIdFromName,
+  getDocument,
+  listAllDocuments,
+  mapField,
+  MAX_BATCH_WRITES,
+  patchDocument,
+  readTimestamp,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+export type SessionClient = {
+  userAgent: string;
+  ip: string;
+};
+
+export type ActiveSession = {
+  id: string;
+  deviceLabel: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+/** The cookie's session is unknown, revoked or expired; the user has to sign in again. */
+export class SessionRevokedError extends Error {
+  constructor() {
+    super("SESSION_REVOKED");
+    this.name = "SessionRevokedError";
+  }
+}
+
+// lastSeenAt is a hint for the sessions list, so it is only rewritten this often.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 300;
+
+const sessionSchema = {
+  deviceLabel: field.string("Unknown device"),
+  ip: field.string(),
+  createdAt: field.timestamp(),
+  lastSeenAt: field.timestamp(),
+  expiresAt: field.timestamp(),
+  revoked: field.boolean(),
+};
+
+function sessionsPath(uid: string) {
+  return `users/${uid}/sessions`;
+}
+
+export function readSessionClient(request: Request): SessionClient {
+  const forwardedFor = request.headers.get("x-forwarded-for") ?? "";
+  return {
+    userAgent: (request.headers.get("user-agent") ?? "").slice(0, MAX_USER_AGENT_LENGTH),
+    ip: forwardedFor.split(",")[0]?.trim() ?? "",
+  };
+}
+
+function describeDevice(userAgent: string) {
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+  const os =
+    [
+      ["iPhone", "iPhone"],
+      ["iPad", "iPad"],
+      ["Android", "Android"],
+      ["Windows", "Windows"],
+      ["Mac OS", "macOS"],
+      ["CrOS", "ChromeOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "";
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function isSessionActive(session: { revoked: boolean; expiresAt: string }, now: number) {
+  return !session.revoked && Date.parse(session.expiresAt) > now;
+}
+
+async function readOptionalDocument(path: string, idToken: string) {
+  try {
+    return await getDocument(path, idToken);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function createSessionRecord(
+  uid: string,
+  client: SessionClient,
+  idToken: string,
+) {
+  const sessionId = randomUUID();
+  const now = new Date();
+  await createOrReplaceDocument(
+    `${sessionsPath(uid)}/${sessionId}`,
+    {
+      deviceLabel: stringField(describeDevice(client.userAgent)),
+      userAgent: stringField(client.userAgent),
+      ip: stringField(client.ip),
+      createdAt: timestampField(now.toISOString()),
+      lastSeenAt: timestampField(now.toISOString()),
+      expiresAt: timestampField(
+        new Date(now.getTime() + SESSION_COOKIE_MAX_AGE * 1000).toISOString(),
+      ),
+      revoked: boolField(false),
+    },
+    idToken,
+  );
+  return sessionId;
+}
+
+/**
+ * Throws `SessionRevokedError` unless the cookie's session is still registered, unrevoked
+ * and newer than the user's last "sign out everywhere".
+ */
+export async function assertSessionActive(session: SessionUser, idToken: string) {
+  if (!session.sessionId) {
+    throw new SessionRevokedError();
+  }
+
+  const [sessionDoc, userDoc] = await Promise.all([
+    readOptionalDocument(`${sessionsPath(session.uid)}/${session.sessionId}`, idToken),
+    readOptionalDocument(`users/${session.uid}`, idToken),
+  ]);
+  if (!sessionDoc) {
+    throw new SessionRevokedError();
+  }
+
+  const now = Date.now();
+  const record = decodeFields(sessionDoc.fields, sessionSchema);
+  const revokedBefore = readTimestamp(userDoc?.fields, "sessionsRevokedAt");
+  if (
+    !isSessionActive(record, now) ||
+    (revokedBefore && Date.parse(record.createdAt) <= Date.parse(revokedBefore))
+  ) {
+    throw new SessionRevokedError();
+  }
+
+  if (now - Date.parse(record.lastSeenAt) > LAST_SEEN_RESOLUTION_MS) {
+    await patchDocument(
+      `${sessionsPath(session.uid)}/${session.sessionId}`,
+      { lastSeenAt: timestampField(new Date(now).toISOString()) },
+      idToken,
+      ["lastSeenAt"],
+    ).catch((error: unknown) => {
+      const reason = error instanceof Error ? error.message.slice(0, 180) : "unknown";
+      console.error("[SESSION_TOUCH_ERROR]", reason);
+    });
+  }
+}
+
+export async function listActiveSessions(session: SessionUser, idToken: string) {
+  const docs = await listAllDocuments(sessionsPath(session.uid), idToken);
+  const now = Date.now();
+  return docs
+    .map((doc) => ({ id: documentIdFromName(doc.name), ...decodeFields(doc.fields, sessionSchema) }))
+    .filter((record) => isSessionActive(record, now))
+    .map(
+      (record): ActiveSession => ({
+        id: record.id,
+        deviceLabel: record.deviceLabel,
+        ip: record.ip,
+        createdAt: record.createdAt,
+        lastSeenAt: record.lastSeenAt,
+        current: record.id === session.sessionId,
+      }),
+    )
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+function revokeWrite(uid: string, sessionId: string, now: string) {
+  return updateDocumentWrite(
+    `${sessionsPath(uid)}/${sessionId}`,
+    { revoked: boolField(true), revokedAt: timestampField(now) },
+    ["revoked", "revokedAt"],
+    DOCUMENT_MUST_EXIST,
+  );
+}
+
+/** Returns false when the session does not belong to the user. */
+export async function revokeSession(uid: string, sessionId: string, idToken: string) {
+  try {
+    await commitBatch([revokeWrite(uid, sessionId, new Date().toISOString())], idToken);
+    return true;
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Signs the user out everywhere. The cutoff on the user doc covers sessions that are
+ * mid-request; marking each record keeps the sessions list accurate.
+ */
+export async function revokeAllSessions(uid: string, idToken: string) {
+  const now = new Date().toISOString();
+  await patchDocument(
+    `users/${uid}`,
+    { sessionsRevokedAt: timestampField(now) },
+    idToken,
+    ["sessionsRevokedAt"],
+  );
+
+  const docs = await listAllDocuments(sessionsPath(uid), idToken);
+  const writes = docs
+    .filter((doc) => !decodeFields(doc.fields, sessionSchema).revoked)
+    .map((doc) => revokeWrite(uid, documentIdFromName(doc.name), now));
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    await commitBatch(writes.slice(start, start + MAX_BATCH_WRITES), idToken);
+  }
+}
+
+/**
+ * Used by admins when a member is removed: moves the member's sign-out cutoff forward.
+ * Rules only allow it for a member doc in a family the caller administers that is deleted
+ * once the batch applies, so it goes in the same commit as the tombstone.
+ */
+export function revokeMemberSessionsWrite(
+  familyId: string,
+  memberId: string,
+  memberUid: string,
+  actorUid: string,
+  now: string,
+) {
+  return updateDocumentWrite(`users/${memberUid}`, {
+    sessionsRevokedAt: timestampField(now),
+    sessionsRevokedBy: mapField({
+      uid: stringField(actorUid),
+      familyId: stringField(familyId),
+      memberId: stringField(memberId),
+    }),
+  });
+}
@@ -1,4 +1,4 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "node:crypto";
 
 export type SessionUser = {
   uid: string;
@@ -6,84 +6,157 @@ export type SessionUser = {
   email: string;
   name: string;
   picture: string;
+  /** Id of the `users/{uid}/sessions` record; requests fail once it is revoked. */
+  sessionId?: string;
+  /** Family picked in the switcher; routes fall back to the first family when unset. */
+  activeFamilyId?: string;
   firebaseIdToken?: string;
   firebaseRefreshToken?: string;
 };
 
-type SessionPayload = SessionUser & {
-  exp: number;
+type SessionKey = {
+  id: string;
+  key: Buffer;
 };
 
 const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+const TOKEN_VERSION = "v2";
+const IV_BYTES = 12;
+const KEY_ID_PATTERN = /^[\w-]{1,32}$/;
 
-function getSecret() {
-  const secret = process.env.SESSION_SECRET;
-  if (!secret || secret.length < 32) {
-    return null;
-  }
-  return secret;
+function deriveKey(secret: string) {
+  return Buffer.from(hkdfSync("sha256", secret, "", "chores-game session v2", 32));
 }
 
-function sign(value: string, secret: string) {
-  return createHmac("sha256", secret).update(value).digest("base64url");
+function parseSessionSecrets(value: string) {
+  return value
+    .split(",")
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = separator === -1 ? "" : entry.slice(0, separator).trim();
+      const secret = separator === -1 ? "" : entry.slice(separator + 1).trim();
+      // A typo here must not quietly turn into a key nobody configured.
+      if (!KEY_ID_PATTERN.test(id) || secret.length < 32) {
+        throw new Error("SESSION_SECRETS_INVALID");
+      }
+      return { id, secret };
+    });
 }
 
-export function createSessionToken(user: SessionUser) {
-  const secret = getSecret();
-  if (!secret) {
+/**
+ * `SESSION_SECRETS` holds comma-separated `keyId:secret` pairs; the first one encrypts new
+ * cookies and every one of them still decrypts, so a secret can be rotated out once the
+ * cookies it sealed have expired. A lone `SESSION_SECRET` acts as key id "default".
+ */
+function getKeys(): SessionKey[] {
+  const entries = process.env.SESSION_SECRETS
+    ? parseSessionSecrets(process.env.SESSION_SECRETS)
+    : [{ id: "default", secret: process.env.SESSION_SECRET ?? "" }];
+  return entries
+    .filter(({ secret }) => secret.length >= 32)
+    .map(({ id, secret }) => ({ id, key: deriveKey(secret) }));
+}
+
+function seal(plaintext: string, { id, key }: SessionKey) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  // The key id is authenticated too, so a token cannot be replayed under another key.
+  cipher.setAAD(Buffer.from(`${TOKEN_VERSION}.${id}`));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [
+    TOKEN_VERSION,
+    id,
+    iv.toString("base64url"),
+    ciphertext.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+  ].join(".");
+}
+
+function open(token: string, keys: SessionKey[]) {
+  const [version, id, iv, ciphertext, tag, ...rest] = token.split(".");
+  if (version !== TOKEN_VERSION || !iv || !ciphertext || !tag || rest.length > 0) {
+    return null;
+  }
+  const sessionKey = keys.find((candidate) => candidate.id === id);
+  if (!sessionKey) {
     return null;
   }
 
-  const payload: SessionPayload = {
-    ...user,
-    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
-  };
-  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const signature = sign(encodedPayload, secret);
-  return `${encodedPayload}.${signature}`;
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      sessionKey.key,
+      Buffer.from(iv, "base64url"),
+    );
+    decipher.setAAD(Buffer.from(`${TOKEN_VERSION}.${id}`));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    return null;
+  }
 }
 
-export function parseSessionToken(token: string | undefined): SessionUser | null {
-  const secret = getSecret();
-  if (!secret || !token) {
+/**
+ * Seals any JSON payload with the active session key. Other signed cookies reuse this so
+ * they rotate along with `SESSION_SECRETS`.
+ */
+export function createSealedToken(payload: object, maxAgeSeconds: number) {
+  const [activeKey] = getKeys();
+  if (!activeKey) {
     return null;
   }
 
-  const [encodedPayload, providedSig] = token.split(".");
-  if (!encodedPayload || !providedSig) {
+  const sealed = { ...payload, exp: Math.floor(Date.now() / 1000) + maxAgeSeconds };
+  return seal(JSON.stringify(sealed), activeKey);
+}
+
+export function parseSealedToken<T extends object>(token: string | undefined) {
+  const keys = getKeys();
+  if (keys.length === 0 || !token) {
     return null;
   }
 
-  const expectedSig = sign(encodedPayload, secret);
-  const expectedBuf = Buffer.from(expectedSig);
-  const providedBuf = Buffer.from(providedSig);
-  if (
-    expectedBuf.length !== providedBuf.length ||
-    !timingSafeEqual(expectedBuf, providedBuf)
-  ) {
+  const plaintext = open(token, keys);
+  if (!plaintext) {
     return null;
   }
 
   try {
-    const parsed = JSON.parse(
-      Buffer.from(encodedPayload, "base64url").toString("utf8"),
-    ) as SessionPayload;
+    const parsed = JSON.parse(plaintext) as T & { exp?: number };
     if (!parsed.exp || parsed.exp < Math.floor(Date.now() / 1000)) {
       return null;
     }
-
-    return {
-      uid: parsed.uid,
-      role: parsed.role,
-      email: parsed.email,
-      name: parsed.name,
-      picture: parsed.picture,
-      firebaseIdToken: parsed.firebaseIdToken,
-      firebaseRefreshToken: parsed.firebaseRefreshToken,
-    };
+    return parsed;
   } catch {
     return null;
   }
 }
 
+export function createSessionToken(user: SessionUser) {
+  return createSealedToken(user, SESSION_MAX_AGE_SECONDS);
+}
+
+export function parseSessionToken(token: string | undefined): SessionUser | null {
+  const parsed = parseSealedToken<SessionUser>(token);
+  if (!parsed || typeof parsed.uid !== "string") {
+    return null;
+  }
+
+  return {
+    uid: parsed.uid,
+    role: parsed.role,
+    email: parsed.email,
+    name: parsed.name,
+    picture: parsed.picture,
+    sessionId: parsed.sessionId,
+    activeFamilyId: parsed.activeFamilyId,
+    firebaseIdToken: parsed.firebaseIdToken,
+    firebaseRefreshToken: parsed.firebaseRefreshToken,
+  };
+}
+
 export const SESSION_COOKIE_MAX_AGE = SESSION_MAX_AGE_SECONDS;
@@ -0,0 +1,38 @@
+import { createHmac } from "node:crypto";
+
+export type WsTicketPayload = {
+  uid: string;
+  familyIds: string[];
+  exp: number;
+};
+
+// Tickets are only exchanged during the socket handshake, so they can be very short-lived.
+export const WS_TICKET_TTL_SECONDS = 60;
+
+function getSecret() {
+  const secret = process.env.WS_TICKET_SECRET;
+  if (!secret || secret.length < 32) {
+    return null;
+  }
+  return secret;
+}
+
+/**
+ * Mints a signed `payload.signature` ticket for the ws server. The format mirrors session
+ * tokens and is verified in `apps/ws/src/auth.ts` with the same shared secret.
+ */
+export function createWsTicket(identity: { uid: string; familyIds: string[] }) {
+  const secret = getSecret();
+  if (!secret) {
+    return null;
+  }
+
+  const payload: WsTicketPayload = {
+    uid: identity.uid,
+    familyIds: identity.familyIds,
+    exp: Math.floor(Date.now() / 1000) + WS_TICKET_TTL_SECONDS,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", secret).update(encodedPayload).digest("base64url");
+  return { ticket: `${encodedPayload}.${signature}`, expiresAt: payload.exp };
+}
@@ -0,0 +1,61 @@
+import { type FirestoreValue, integerField, readInteger } from "@/lib/firestore/rest";
+
+export type ChoreDifficulty = "easy" | "medium" | "hard";
+
+export type DifficultyPresets = Record<ChoreDifficulty, number>;
+
+export const CHORE_DIFFICULTIES: ChoreDifficulty[] = ["easy", "medium", "hard"];
+
+export const DEFAULT_CHORE_COIN_VALUE = 10;
+export const MAX_CHORE_COIN_VALUE = 1000;
+
+export const DEFAULT_DIFFICULTY_PRESETS: DifficultyPresets = {
+  easy: 5,
+  medium: DEFAULT_CHORE_COIN_VALUE,
+  hard: 20,
+};
+
+export function isChoreDifficulty(value: unknown): value is ChoreDifficulty {
+  return value === "easy" || value === "medium" || value === "hard";
+}
+
+export function toChoreDifficulty(value: string) {
+  return isChoreDifficulty(value) ? value : undefined;
+}
+
+export function isValidCoinValue(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= MAX_CHORE_COIN_VALUE
+  );
+}
+
+/** Reads the family's `difficultyPresets` map, falling back to defaults per tier. */
+export function readDifficultyPresets(
+  fields: Record<string, FirestoreValue> | undefined,
+): DifficultyPresets {
+  const value = fields?.difficultyPresets;
+  const presetFields = value && "mapValue" in value ? value.mapValue.fields : undefined;
+  const presets = { ...DEFAULT_DIFFICULTY_PRESETS };
+  for (const difficulty of CHORE_DIFFICULTIES) {
+    const coinValue = readInteger(presetFields, difficulty);
+    if (isValidCoinValue(coinValue)) {
+      presets[difficulty] = coinValue;
+    }
+  }
+  return presets;
+}
+
+export function difficultyPresetsField(presets: DifficultyPresets): FirestoreValue {
+  return {
+    mapValue: {
+      fields: {
+        easy: integerField(presets.easy),
+        medium: integerField(presets.medium),
+        hard: integerField(presets.hard),
+      },
+    },
+  };
+}
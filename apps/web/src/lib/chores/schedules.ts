@@ -0,0 +1,464 @@
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreConflictError, FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  createOrReplaceDocument,
+  DOCUMENT_MUST_NOT_EXIST,
+  documentIdFromName,
+  fieldFilter,
+  type FirestoreValue,
+  type FirestoreWrite,
+  getDocument,
+  integerArrayField,
+  integerField,
+  listAllDocuments,
+  MAX_BATCH_WRITES,
+  orderByField,
+  patchDocument,
+  queryDocuments,
+  readBoolean,
+  readString,
+  referenceField,
+  setDocumentWrite,
+  stringArrayField,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+export type ChoreRecurrence =
+  | { kind: "daily" }
+  | { kind: "weekly"; weekdays: number[] }
+  | { kind: "interval"; everyDays: number }
+  | { kind: "monthly"; dayOfMonth: number };
+
+export type ChoreSchedule = {
+  id: string;
+  familyId: string;
+  title: string;
+  details: string;
+  assigneeId: string;
+  assigneeName: string;
+  coinValue: number;
+  difficulty: string;
+  recurrence: ChoreRecurrence;
+  startDate: string;
+  endDate: string;
+  skippedDates: string[];
+  generatedThrough: string;
+  status: "active" | "ended";
+  createdBy: string;
+  createdAt?: string;
+};
+
+export type NewChoreSchedule = Omit<
+  ChoreSchedule,
+  "id" | "familyId" | "skippedDates" | "generatedThrough" | "status" | "createdAt"
+>;
+
+export type GenerateSchedulesResult = {
+  schedules: number;
+  created: number;
+  // Instances that already existed, e.g. written by an overlapping run.
+  skipped: number;
+};
+
+// How far ahead instances are materialized, counting today.
+export const SCHEDULE_HORIZON_DAYS = 7;
+const ACTIVE_SCHEDULES_PAGE_SIZE = 500;
+const MAX_INTERVAL_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function schedulesPath(familyId: string) {
+  return `families/${familyId}/choreSchedules`;
+}
+
+/** Instances get deterministic ids so repeated generator runs never duplicate a day. */
+export function scheduledChoreId(scheduleId: string, date: string) {
+  return `schedule-${scheduleId}-${date}`;
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function toUtcMillis(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromUtcMillis(millis: number) {
+  return new Date(millis).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number) {
+  return fromUtcMillis(toUtcMillis(date) + days * DAY_MS);
+}
+
+function daysInMonth(date: string) {
+  const [year, month] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Parses a recurrence from untrusted input; returns null when it is not valid. */
+export function parseRecurrence(value: unknown): ChoreRecurrence | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const input = value as Record<string, unknown>;
+  if (input.kind === "daily") {
+    return { kind: "daily" };
+  }
+  if (input.kind === "weekly") {
+    const weekdays = Array.isArray(input.weekdays)
+      ? [...new Set(input.weekdays)].filter(
+          (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6,
+        )
+      : [];
+    return weekdays.length > 0 ? { kind: "weekly", weekdays: weekdays.sort() } : null;
+  }
+  if (input.kind === "interval") {
+    const everyDays = input.everyDays;
+    return typeof everyDays === "number" &&
+      Number.isInteger(everyDays) &&
+      everyDays >= 1 &&
+      everyDays <= MAX_INTERVAL_DAYS
+      ? { kind: "interval", everyDays }
+      : null;
+  }
+  if (input.kind === "monthly") {
+    const dayOfMonth = input.dayOfMonth;
+    return typeof dayOfMonth === "number" &&
+      Number.isInteger(dayOfMonth) &&
+      dayOfMonth >= 1 &&
+      dayOfMonth <= 31
+      ? { kind: "monthly", dayOfMonth }
+      : null;
+  }
+  return null;
+}
+
+function occursOn(schedule: Pick<ChoreSchedule, "recurrence" | "startDate">, date: string) {
+  const { recurrence } = schedule;
+  if (recurrence.kind === "daily") {
+    return true;
+  }
+  if (recurrence.kind === "weekly") {
+    return recurrence.weekdays.includes(new Date(toUtcMillis(date)).getUTCDay());
+  }
+  if (recurrence.kind === "interval") {
+    const elapsedDays = Math.round((toUtcMillis(date) - toUtcMillis(schedule.startDate)) / DAY_MS);
+    return elapsedDays % recurrence.everyDays === 0;
+  }
+  // Months shorter than the configured day fall back to their last day.
+  const day = Number(date.slice(8, 10));
+  return day === Math.min(recurrence.dayOfMonth, daysInMonth(date));
+}
+
+/** Lists the dates in `[from, through]` on which the schedule produces an instance. */
+export function occurrencesBetween(
+  schedule: Pick<ChoreSchedule, "recurrence" | "startDate" | "endDate" | "skippedDates">,
+  from: string,
+  through: string,
+) {
+  const first = from > schedule.startDate ? from : schedule.startDate;
+  const last = schedule.endDate && schedule.endDate < through ? schedule.endDate : through;
+  const dates: string[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    if (occursOn(schedule, date) && !schedule.skippedDates.includes(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+function recurrenceField(recurrence: ChoreRecurrence): FirestoreValue {
+  const fields: Record<string, FirestoreValue> = { kind: stringField(recurrence.kind) };
+  if (recurrence.kind === "weekly") {
+    fields.weekdays = integerArrayField(recurrence.weekdays);
+  }
+  if (recurrence.kind === "interval") {
+    fields.everyDays = integerField(recurrence.everyDays);
+  }
+  if (recurrence.kind === "monthly") {
+    fields.dayOfMonth = integerField(recurrence.dayOfMonth);
+  }
+  return { mapValue: { fields } };
+}
+
+const recurrenceSchema = {
+  kind: field.string(),
+  weekdays: field.array(field.integer()),
+  everyDays: field.integer(),
+  dayOfMonth: field.integer(),
+};
+
+const scheduleSchema = {
+  title: field.string(),
+  details: field.string(),
+  assigneeId: field.string(),
+  assigneeName: field.string("Unassigned"),
+  coinValue: field.integer(),
+  difficulty: field.string(),
+  recurrence: field.map(recurrenceSchema),
+  startDate: field.string(),
+  endDate: field.string(),
+  skippedDates: field.stringArray(),
+  generatedThrough: field.string(),
+  status: field.oneOf(["active", "ended"], "active"),
+  createdBy: field.string(),
+  createdAt: field.optional(field.timestamp()),
+};
+
+function familyIdFromScheduleName(name: string) {
+  const match = name.match(/\/families\/([^/]+)\/choreSchedules\//);
+  return match?.[1] ?? "";
+}
+
+export function normalizeScheduleDoc(doc: {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+}): ChoreSchedule {
+  const { recurrence, ...fields } = decodeFields(doc.fields, scheduleSchema);
+  return {
+    id: documentIdFromName(doc.name),
+    familyId: familyIdFromScheduleName(doc.name),
+    ...fields,
+    recurrence: parseRecurrence(recurrence) ?? { kind: "daily" },
+  };
+}
+
+export async function createSchedule(
+  familyId: string,
+  scheduleId: string,
+  schedule: NewChoreSchedule,
+  idToken: string,
+) {
+  const now = new Date().toISOString();
+  await createOrReplaceDocument(
+    `${schedulesPath(familyId)}/${scheduleId}`,
+    {
+      title: stringField(schedule.title),
+      details: stringField(schedule.details),
+      assigneeId: stringField(schedule.assigneeId),
+      assigneeName: stringField(schedule.assigneeName),
+      coinValue: integerField(schedule.coinValue),
+      difficulty: stringField(schedule.difficulty),
+      recurrence: recurrenceField(schedule.recurrence),
+      startDate: stringField(schedule.startDate),
+      endDate: stringField(schedule.endDate),
+      skippedDates: stringArrayField([]),
+      generatedThrough: stringField(""),
+      status: stringField("active"),
+      createdBy: stringField(schedule.createdBy),
+      createdAt: timestampField(now),
+      updatedAt: timestampField(now),
+    },
+    idToken,
+  );
+}
+
+export async function getSchedule(familyId: string, scheduleId: string, idToken: string) {
+  try {
+    const doc = await getDocument(`${schedulesPath(familyId)}/${scheduleId}`, idToken);
+    return normalizeScheduleDoc(doc);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function listSchedules(familyId: string, idToken: string) {
+  const docs = await listAllDocuments(schedulesPath(familyId), idToken);
+  return docs.map((doc) => normalizeScheduleDoc(doc));
+}
+
+/** Lists active schedules across every family; only the scheduler identity may run this. */
+export async function listAllActiveSchedules(idToken: string) {
+  const schedules: ChoreSchedule[] = [];
+  let lastPath = "";
+  for (;;) {
+    const docs = await queryDocuments(
+      {
+        collection: "choreSchedules",
+        allDescendants: true,
+        where: fieldFilter("status", "EQUAL", stringField("active")),
+        orderBy: [orderByField("__name__")],
+        startAfter: lastPath ? [referenceField(lastPath)] : undefined,
+        limit: ACTIVE_SCHEDULES_PAGE_SIZE,
+      },
+      idToken,
+    );
+    schedules.push(
+      ...docs.map((doc) => normalizeScheduleDoc(doc)).filter((schedule) => schedule.familyId),
+    );
+    if (docs.length < ACTIVE_SCHEDULES_PAGE_SIZE) {
+      return schedules;
+    }
+    lastPath = docs[docs.length - 1].path;
+  }
+}
+
+/** The instance writes for the schedule's occurrences from its last run up to `through`. */
+function scheduleInstanceWrites(schedule: ChoreSchedule, through: string, today: string) {
+  if (schedule.status !== "active") {
+    return [];
+  }
+  const from = schedule.generatedThrough ? addDays(schedule.generatedThrough, 1) : today;
+  const now = new Date().toISOString();
+  return occurrencesBetween(schedule, from > today ? from : today, through).map((date) =>
+    setDocumentWrite(
+      `families/${schedule.familyId}/chores/${scheduledChoreId(schedule.id, date)}`,
+      {
+        title: stringField(schedule.title),
+        status: stringField("Open"),
+        assigneeId: stringField(schedule.assigneeId),
+        assigneeName: stringField(schedule.assigneeName),
+        details: stringField(schedule.details),
+        dueDate: stringField(date),
+        coinValue: integerField(schedule.coinValue),
+        difficulty: stringField(schedule.difficulty),
+        scheduleId: stringField(schedule.id),
+        deleted: boolField(false),
+        createdBy: stringField(schedule.createdBy),
+        createdAt: timestampField(now),
+      },
+      DOCUMENT_MUST_NOT_EXIST,
+    ),
+  );
+}
+
+/**
+ * Commits create-only instance writes. One existing instance fails its whole batch, so that
+ * chunk is retried one write at a time to count which ones were already there.
+ */
+async function commitInstanceWrites(writes: FirestoreWrite[], idToken: string) {
+  let created = 0;
+  let skipped = 0;
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const chunk = writes.slice(start, start + MAX_BATCH_WRITES);
+    try {
+      await commitBatch(chunk, idToken);
+      created += chunk.length;
+      continue;
+    } catch (error) {
+      if (!(error instanceof FirestoreConflictError)) {
+        throw error;
+      }
+    }
+    for (const write of chunk) {
+      try {
+        await commitBatch([write], idToken);
+        created += 1;
+      } catch (error) {
+        if (!(error instanceof FirestoreConflictError)) {
+          throw error;
+        }
+        skipped += 1;
+      }
+    }
+  }
+  return { created, skipped };
+}
+
+/**
+ * Materializes each schedule's instances through the horizon. Each day maps to a fixed chore
+ * id that is only ever created, never replaced, so an overlapping run cannot overwrite an
+ * instance that was already submitted or approved. `generatedThrough` only moves once the
+ * instances are written.
+ */
+export async function generateSchedules(
+  schedules: ChoreSchedule[],
+  today: string,
+  idToken: string,
+): Promise<GenerateSchedulesResult> {
+  const through = addDays(today, SCHEDULE_HORIZON_DAYS - 1);
+  const active = schedules.filter((schedule) => schedule.status === "active");
+  const { created, skipped } = await commitInstanceWrites(
+    active.flatMap((schedule) => scheduleInstanceWrites(schedule, through, today)),
+    idToken,
+  );
+
+  const now = new Date().toISOString();
+  const progressWrites = active
+    .filter((schedule) => through > schedule.generatedThrough)
+    .map((schedule) =>
+      updateDocumentWrite(`${schedulesPath(schedule.familyId)}/${schedule.id}`, {
+        generatedThrough: stringField(through),
+        updatedAt: timestampField(now),
+      }),
+    );
+  for (let start = 0; start < progressWrites.length; start += MAX_BATCH_WRITES) {
+    await commitBatch(progressWrites.slice(start, start + MAX_BATCH_WRITES), idToken);
+  }
+  return { schedules: schedules.length, created, skipped };
+}
+
+async function softDeleteOpenInstance(familyId: string, choreId: string, idToken: string) {
+  try {
+    const doc = await getDocument(`families/${familyId}/chores/${choreId}`, idToken);
+    if (readBoolean(doc.fields, "deleted") || readString(doc.fields, "status") !== "Open") {
+      return;
+    }
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return;
+    }
+    throw error;
+  }
+  const now = new Date().toISOString();
+  await patchDocument(
+    `families/${familyId}/chores/${choreId}`,
+    {
+      deleted: boolField(true),
+      deletedAt: timestampField(now),
+      status: stringField("Deleted"),
+    },
+    idToken,
+    ["deleted", "deletedAt", "status"],
+  );
+}
+
+/** Skips one occurrence, removing its instance if it was already generated and untouched. */
+export async function skipScheduleDate(schedule: ChoreSchedule, date: string, idToken: string) {
+  const skippedDates = [...new Set([...schedule.skippedDates, date])].sort();
+  await patchDocument(
+    `${schedulesPath(schedule.familyId)}/${schedule.id}`,
+    {
+      skippedDates: stringArrayField(skippedDates),
+      updatedAt: timestampField(new Date().toISOString()),
+    },
+    idToken,
+    ["skippedDates", "updatedAt"],
+  );
+  await softDeleteOpenInstance(schedule.familyId, scheduledChoreId(schedule.id, date), idToken);
+  return skippedDates;
+}
+
+/** Ends the series after `lastDate`, removing open instances generated beyond it. */
+export async function endSchedule(schedule: ChoreSchedule, lastDate: string, idToken: string) {
+  await patchDocument(
+    `${schedulesPath(schedule.familyId)}/${schedule.id}`,
+    {
+      status: stringField("ended"),
+      endDate: stringField(lastDate),
+      updatedAt: timestampField(new Date().toISOString()),
+    },
+    idToken,
+    ["status", "endDate", "updatedAt"],
+  );
+  if (!schedule.generatedThrough || schedule.generatedThrough <= lastDate) {
+    return;
+  }
+  const orphanedDates = occurrencesBetween(
+    { ...schedule, endDate: "" },
+    addDays(lastDate, 1),
+    schedule.generatedThrough,
+  );
+  for (const date of orphanedDates) {
+    await softDeleteOpenInstance(schedule.familyId, scheduledChoreId(schedule.id, date), idToken);
+  }
+}
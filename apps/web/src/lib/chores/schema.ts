@@ -0,0 +1,49 @@
+import { CHORE_DIFFICULTIES, DEFAULT_CHORE_COIN_VALUE } from "@/lib/chores/difficulty";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  documentIdFromName,
+  type FirestoreFields,
+  getDocument,
+  readString,
+} from "@/lib/firestore/rest";
+
+/** Fields of `families/{familyId}/chores/{choreId}` as the dashboard and chore APIs read them. */
+export const choreSchema = {
+  title: field.string("Untitled chore"),
+  status: field.string("Open"),
+  assigneeId: field.optionalString(),
+  assigneeName: field.string("Unassigned"),
+  details: field.optionalString(),
+  dueDate: field.string(),
+  coinValue: field.integer(DEFAULT_CHORE_COIN_VALUE),
+  difficulty: field.oneOf(CHORE_DIFFICULTIES, undefined),
+  deleted: field.boolean(),
+  createdAt: field.optional(field.timestamp()),
+  submittedBy: field.optionalString(),
+  submittedAt: field.optional(field.timestamp()),
+  reviewedAt: field.optional(field.timestamp()),
+  reviewNote: field.optionalString(),
+};
+
+export function decodeChoreDoc(doc: { name: string; fields?: FirestoreFields }) {
+  return { id: documentIdFromName(doc.name), ...decodeFields(doc.fields, choreSchema) };
+}
+
+/** Collapses whitespace in chore and schedule titles. */
+export function normalizeDescription(value: string) {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+/** The name stored on a chore as `assigneeName`; "Unassigned" when the member is gone. */
+export async function getFamilyMemberName(familyId: string, memberId: string, idToken: string) {
+  try {
+    const memberDoc = await getDocument(`families/${familyId}/members/${memberId}`, idToken);
+    return readString(memberDoc.fields, "name") || "Unassigned";
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return "Unassigned";
+    }
+    throw error;
+  }
+}
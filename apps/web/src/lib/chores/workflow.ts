@@ -0,0 +1,298 @@
+import { NextResponse } from "next/server";
+import { jsonNotAllowed } from "@/lib/api/responses";
+import { withFamily } from "@/lib/api/route";
+import { DEFAULT_CHORE_COIN_VALUE } from "@/lib/chores/difficulty";
+import {
+  type FamilyPermission,
+  type MemberRole,
+  roleHasPermission,
+} from "@/lib/family/permissions";
+import {
+  appendLedgerEntry,
+  type AppendLedgerEntryResult,
+  choreApprovalEntryId,
+  StaleLedgerWritesError,
+} from "@/lib/family/wallet";
+import { FirestoreConflictError } from "@/lib/firestore/errors";
+import {
+  commitBatch,
+  type FirestoreValue,
+  getDocument,
+  readInteger,
+  readString,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+import { publishFamilyEvent } from "@/lib/realtime/publish";
+
+export type ChoreStatus = "Open" | "Submitted" | "Approved" | "Rejected";
+
+export type ChoreTransition = "submit" | "approve" | "reject";
+
+type TransitionRule = {
+  from: ChoreStatus[];
+  to: ChoreStatus;
+  permission?: FamilyPermission;
+};
+
+const TRANSITIONS: Record<ChoreTransition, TransitionRule> = {
+  submit: { from: ["Open", "Rejected"], to: "Submitted" },
+  approve: { from: ["Submitted"], to: "Approved", permission: "chores:review" },
+  reject: { from: ["Submitted"], to: "Rejected", permission: "chores:review" },
+};
+
+export const MAX_REVIEW_NOTE_LENGTH = 500;
+
+export function toChoreStatus(value: string): ChoreStatus | "Unknown" {
+  if (value === "Open" || value === "Submitted" || value === "Approved" || value === "Rejected") {
+    return value;
+  }
+  return "Unknown";
+}
+
+export function nextChoreStatus(current: string, transition: ChoreTransition) {
+  const rule = TRANSITIONS[transition];
+  const status = toChoreStatus(current || "Open");
+  if (status === "Unknown" || !rule.from.includes(status)) {
+    return null;
+  }
+  return rule.to;
+}
+
+type ChoreActor = {
+  uid: string;
+  email: string;
+  /** The actor's role in the family, as read by `withFamily`. */
+  role: MemberRole;
+};
+
+type ApplyChoreTransitionInput = {
+  familyId: string;
+  choreId: string;
+  transition: ChoreTransition;
+  actor: ChoreActor;
+  note?: string;
+  idToken: string;
+};
+
+type ChorePayout = {
+  memberId: string;
+  amount: number;
+  entryId: string;
+};
+
+export type ApplyChoreTransitionResult =
+  | { kind: "ok"; status: ChoreStatus; actedAt: string; payout?: ChorePayout }
+  | { kind: "chore_not_found" }
+  | { kind: "not_allowed" }
+  | { kind: "not_assignee" }
+  | { kind: "invalid_transition"; status: string }
+  | { kind: "chore_changed" };
+
+/**
+ * Writes a transition that moves no coins, guarded by the update time the status was read
+ * at. False when the chore changed in between, e.g. a concurrent approval already paid out.
+ */
+async function commitChoreUpdate(
+  path: string,
+  fields: Record<string, FirestoreValue>,
+  updateTime: string | undefined,
+  idToken: string,
+) {
+  try {
+    await commitBatch(
+      [updateDocumentWrite(path, fields, undefined, updateTime ? { updateTime } : undefined)],
+      idToken,
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof FirestoreConflictError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function applyChoreTransition({
+  familyId,
+  choreId,
+  transition,
+  actor,
+  note = "",
+  idToken,
+}: ApplyChoreTransitionInput): Promise<ApplyChoreTransitionResult> {
+  const rule = TRANSITIONS[transition];
+  const requesterRole = actor.role;
+  // Players can never approve or reject, which also covers reviewing their own submission.
+  if (rule.permission && !roleHasPermission(requesterRole, rule.permission)) {
+    return { kind: "not_allowed" };
+  }
+
+  const chorePath = `families/${familyId}/chores/${choreId}`;
+  const choreDoc = await getDocument(chorePath, idToken);
+  if (readString(choreDoc.fields, "status") === "Deleted") {
+    return { kind: "chore_not_found" };
+  }
+
+  const currentStatus = readString(choreDoc.fields, "status") || "Open";
+  const status = nextChoreStatus(currentStatus, transition);
+  if (!status) {
+    return { kind: "invalid_transition", status: currentStatus };
+  }
+
+  if (transition === "submit" && !roleHasPermission(requesterRole, "chores:submit_any")) {
+    const assigneeId = readString(choreDoc.fields, "assigneeId");
+    const normalizedEmail = actor.email.trim().toLowerCase();
+    if (assigneeId && assigneeId !== actor.uid && assigneeId !== normalizedEmail) {
+      return { kind: "not_assignee" };
+    }
+  }
+
+  const now = new Date().toISOString();
+  if (transition === "submit") {
+    const submitted = await commitChoreUpdate(
+      chorePath,
+      {
+        status: stringField(status),
+        submittedBy: stringField(actor.uid),
+        submittedAt: timestampField(now),
+        updatedAt: timestampField(now),
+      },
+      choreDoc.updateTime,
+      idToken,
+    );
+    if (!submitted) {
+      return { kind: "chore_changed" };
+    }
+    return { kind: "ok", status, actedAt: now };
+  }
+
+  const reviewFields = {
+    status: stringField(status),
+    reviewedBy: stringField(actor.uid),
+    reviewedAt: timestampField(now),
+    reviewNote: stringField(note.trim().slice(0, MAX_REVIEW_NOTE_LENGTH)),
+    updatedAt: timestampField(now),
+  };
+
+  const payeeId =
+    readString(choreDoc.fields, "assigneeId") || readString(choreDoc.fields, "submittedBy");
+  if (transition === "reject" || !payeeId) {
+    if (!(await commitChoreUpdate(chorePath, reviewFields, choreDoc.updateTime, idToken))) {
+      return { kind: "chore_changed" };
+    }
+    return { kind: "ok", status, actedAt: now };
+  }
+
+  // Approval and payout land in one commit, guarded by the chore's update time so a
+  // concurrent approval cannot pay out twice. If the chore was edited in between, the
+  // reviewer has to reload it rather than approve what they did not see.
+  const choreUpdateTime = choreDoc.updateTime;
+  const amount = readInteger(choreDoc.fields, "coinValue") || DEFAULT_CHORE_COIN_VALUE;
+  const entryId = choreApprovalEntryId(choreId);
+  let ledgerResult: AppendLedgerEntryResult;
+  try {
+    ledgerResult = await appendLedgerEntry({
+      familyId,
+      memberId: payeeId,
+      kind: "credit",
+      amount,
+      reason: "chore_approval",
+      note: readString(choreDoc.fields, "title"),
+      choreId,
+      entryId,
+      createdBy: actor.uid,
+      idToken,
+      extraWrites: [
+        updateDocumentWrite(
+          chorePath,
+          reviewFields,
+          undefined,
+          choreUpdateTime ? { updateTime: choreUpdateTime } : undefined,
+        ),
+      ],
+      extraWritesCurrent: async () => {
+        const current = await getDocument(chorePath, idToken);
+        return current.updateTime === choreUpdateTime;
+      },
+    });
+  } catch (error) {
+    if (error instanceof StaleLedgerWritesError) {
+      return { kind: "chore_changed" };
+    }
+    throw error;
+  }
+  if (ledgerResult.kind !== "ok") {
+    return { kind: "invalid_transition", status: "Approved" };
+  }
+
+  return {
+    kind: "ok",
+    status,
+    actedAt: now,
+    payout: { memberId: payeeId, amount, entryId },
+  };
+}
+
+type ReviewChoreBody = {
+  note?: unknown;
+};
+
+/**
+ * The approve and reject routes. They differ only in the transition; approvals also report
+ * the payout. The body (an optional review note) may be empty.
+ */
+export function reviewChoreRoute(transition: "approve" | "reject") {
+  return withFamily<{ choreId: string }>(
+    {
+      errorTag: `CHORE_${transition.toUpperCase()}_ERROR`,
+      failureError: `${transition}_chore_failed`,
+      notFoundError: "chore_not_found",
+      permission: "chores:review",
+    },
+    async ({ params: { choreId }, session, familyId, member, idToken, readJson }) => {
+      const body = await readJson<ReviewChoreBody>();
+      const note = typeof body?.note === "string" ? body.note.trim() : "";
+      if (note.length > MAX_REVIEW_NOTE_LENGTH) {
+        return NextResponse.json({ error: "note_too_long" }, { status: 400 });
+      }
+
+      const result = await applyChoreTransition({
+        familyId,
+        choreId,
+        transition,
+        actor: { uid: session.uid, email: session.email, role: member.role },
+        note,
+        idToken,
+      });
+      if (result.kind === "chore_not_found") {
+        return NextResponse.json({ error: "chore_not_found" }, { status: 404 });
+      }
+      if (result.kind === "not_allowed" || result.kind === "not_assignee") {
+        return jsonNotAllowed();
+      }
+      if (result.kind === "invalid_transition") {
+        return NextResponse.json(
+          { error: "invalid_transition", status: result.status },
+          { status: 409 },
+        );
+      }
+      if (result.kind === "chore_changed") {
+        return NextResponse.json({ error: "chore_changed" }, { status: 409 });
+      }
+
+      await publishFamilyEvent(familyId, session.uid, {
+        type: "chore.updated",
+        choreId,
+        status: result.status,
+      });
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        reviewedAt: result.actedAt,
+        ...(transition === "approve" ? { payout: result.payout ?? null } : {}),
+      });
+    },
+  );
+}
@@ -0,0 +1,263 @@
+import { familyInviteCodeWrites } from "@/lib/family/invite-codes";
+import { getUserFamilyIds } from "@/lib/family/membership";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError, FirestorePermissionDeniedError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  documentIdFromName,
+  type FirestoreWrite,
+  getDocument,
+  listAllDocuments,
+  MAX_BATCH_WRITES,
+  readString,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+/**
+ * Deleting a family is a soft delete: the family doc, its chores and its chore usage counters
+ * are flagged, and pending email invites, invite links and join codes are revoked. Until
+ * `restorableUntil` the owner can undo it; chores and counters that were already deleted
+ * beforehand stay deleted after a restore.
+ */
+
+export const FAMILY_DELETION_GRACE_DAYS = 30;
+
+export type DeleteFamilyResult =
+  | { kind: "ok"; restorableUntil: string }
+  | { kind: "not_owner" };
+
+export type RestoreFamilyResult =
+  | { kind: "ok" }
+  | { kind: "not_found" }
+  | { kind: "not_owner" }
+  | { kind: "not_deleted" }
+  | { kind: "grace_period_over" };
+
+export type DeletedFamily = {
+  id: string;
+  name: string;
+  deletedAt: string;
+  restorableUntil: string;
+};
+
+const familySchema = {
+  name: field.string("My Family"),
+  createdBy: field.string(),
+  deleted: field.boolean(),
+  deletedAt: field.optional(field.timestamp()),
+  restorableUntil: field.optional(field.timestamp()),
+};
+
+const cascadeSchema = {
+  deleted: field.boolean(),
+  deletedWithFamily: field.boolean(),
+};
+
+const pendingInviteSchema = {
+  email: field.string(),
+  status: field.oneOf(["active", "invited"], "invited"),
+  deleted: field.boolean(),
+};
+
+async function readFamily(familyId: string, idToken: string) {
+  try {
+    const familyDoc = await getDocument(`families/${familyId}`, idToken);
+    return decodeFields(familyDoc.fields, familySchema);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError || error instanceof FirestorePermissionDeniedError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Flags (or unflags) the family's chores and usage counters. Only docs this cascade deleted
+ * are marked `deletedWithFamily`, so a restore brings back exactly those.
+ */
+async function cascadeWrites(familyId: string, deleted: boolean, now: string, idToken: string) {
+  const collections = ["chores", "choreUsage"];
+  const docsByCollection = await Promise.all(
+    collections.map((collection) =>
+      listAllDocuments(`families/${familyId}/${collection}`, idToken),
+    ),
+  );
+  return docsByCollection.flatMap((docs, index) =>
+    docs
+      .filter((doc) => {
+        const state = decodeFields(doc.fields, cascadeSchema);
+        return deleted ? !state.deleted : state.deletedWithFamily;
+      })
+      .map((doc) =>
+        updateDocumentWrite(
+          `families/${familyId}/${collections[index]}/${documentIdFromName(doc.name)}`,
+          {
+            deleted: boolField(deleted),
+            deletedWithFamily: boolField(deleted),
+            updatedAt: timestampField(now),
+          },
+        ),
+      ),
+  );
+}
+
+async function readInviteLookupFamilyId(email: string, idToken: string) {
+  try {
+    const lookupDoc = await getDocument(`inviteLookup/${email}`, idToken);
+    return readString(lookupDoc.fields, "familyId");
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError || error instanceof FirestorePermissionDeniedError) {
+      return "";
+    }
+    throw error;
+  }
+}
+
+/**
+ * The invitee finds an invite through its lookup, so the lookup follows the family's state.
+ * A lookup that now points at another family's invite is left alone.
+ */
+async function pendingInviteWrites(
+  familyId: string,
+  status: "invited" | "revoked",
+  now: string,
+  idToken: string,
+) {
+  const memberDocs = await listAllDocuments(`families/${familyId}/members`, idToken);
+  const emails = memberDocs
+    .map((doc) => decodeFields(doc.fields, pendingInviteSchema))
+    .filter((member) => !member.deleted && member.status === "invited" && member.email)
+    .map((member) => member.email.trim().toLowerCase());
+  const lookupFamilyIds = await Promise.all(
+    emails.map((email) => readInviteLookupFamilyId(email, idToken)),
+  );
+  return emails
+    .filter((_email, index) => lookupFamilyIds[index] === familyId)
+    .map((email) =>
+      updateDocumentWrite(`inviteLookup/${email}`, {
+        status: stringField(status),
+        updatedAt: timestampField(now),
+      }),
+    );
+}
+
+// The family doc is written last, so a failed run can simply be retried: docs handled by
+// an earlier attempt are skipped by the `deleted` / `deletedWithFamily` filters.
+async function commitInBatches(writes: FirestoreWrite[], idToken: string) {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    await commitBatch(writes.slice(start, start + MAX_BATCH_WRITES), idToken);
+  }
+}
+
+export async function deleteFamily(
+  familyId: string,
+  actorUid: string,
+  idToken: string,
+): Promise<DeleteFamilyResult> {
+  const family = await readFamily(familyId, idToken);
+  if (!family || family.createdBy !== actorUid) {
+    return { kind: "not_owner" };
+  }
+
+  const now = new Date();
+  const restorableUntil = new Date(
+    now.getTime() + FAMILY_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+  const [cascade, invites, inviteCodes] = await Promise.all([
+    cascadeWrites(familyId, true, now.toISOString(), idToken),
+    pendingInviteWrites(familyId, "revoked", now.toISOString(), idToken),
+    familyInviteCodeWrites(familyId, true, now.toISOString(), idToken),
+  ]);
+  await commitInBatches(
+    [
+      ...cascade,
+      ...invites,
+      ...inviteCodes,
+      updateDocumentWrite(
+        `families/${familyId}`,
+        {
+          deleted: boolField(true),
+          deletedAt: timestampField(now.toISOString()),
+          deletedBy: stringField(actorUid),
+          restorableUntil: timestampField(restorableUntil),
+        },
+        undefined,
+        DOCUMENT_MUST_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return { kind: "ok", restorableUntil };
+}
+
+export async function restoreFamily(
+  familyId: string,
+  actorUid: string,
+  idToken: string,
+): Promise<RestoreFamilyResult> {
+  const family = await readFamily(familyId, idToken);
+  if (!family) {
+    return { kind: "not_found" };
+  }
+  if (family.createdBy !== actorUid) {
+    return { kind: "not_owner" };
+  }
+  if (!family.deleted) {
+    return { kind: "not_deleted" };
+  }
+  if (!family.restorableUntil || Date.parse(family.restorableUntil) <= Date.now()) {
+    return { kind: "grace_period_over" };
+  }
+
+  const now = new Date().toISOString();
+  const [cascade, invites, inviteCodes] = await Promise.all([
+    cascadeWrites(familyId, false, now, idToken),
+    pendingInviteWrites(familyId, "invited", now, idToken),
+    familyInviteCodeWrites(familyId, false, now, idToken),
+  ]);
+  await commitInBatches(
+    [
+      ...cascade,
+      ...invites,
+      ...inviteCodes,
+      // Listing `restorableUntil` without a value removes it from the doc.
+      updateDocumentWrite(
+        `families/${familyId}`,
+        { deleted: boolField(false), restoredAt: timestampField(now) },
+        ["deleted", "restoredAt", "restorableUntil"],
+        DOCUMENT_MUST_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return { kind: "ok" };
+}
+
+/** Families the user owns that were deleted and can still be restored. */
+export async function listRestorableFamilies(uid: string, idToken: string) {
+  const familyIds = await getUserFamilyIds(uid, idToken);
+  const families = await Promise.all(
+    familyIds.map(async (familyId): Promise<DeletedFamily | null> => {
+      const family = await readFamily(familyId, idToken);
+      if (
+        !family?.deleted ||
+        family.createdBy !== uid ||
+        !family.restorableUntil ||
+        Date.parse(family.restorableUntil) <= Date.now()
+      ) {
+        return null;
+      }
+      return {
+        id: familyId,
+        name: family.name,
+        deletedAt: family.deletedAt ?? "",
+        restorableUntil: family.restorableUntil,
+      };
+    }),
+  );
+  return families.filter((family) => family !== null);
+}
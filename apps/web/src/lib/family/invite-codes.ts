@@ -0,0 +1,285 @@
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import type { SessionUser } from "@/lib/auth/session";
+import { linkUserFamilyWrite } from "@/lib/family/membership";
+import type { MemberRole } from "@/lib/family/permissions";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  boolField,
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  DOCUMENT_MUST_NOT_EXIST,
+  fieldFilter,
+  type FirestoreWrite,
+  getDocument,
+  integerField,
+  queryDocuments,
+  readBoolean,
+  runTransaction,
+  setDocumentWrite,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+/**
+ * Shareable invites that are not tied to an email address. A link carries a long random
+ * token, a join code is short enough to read out; both are stored under the hash of the
+ * secret, so listing them never reveals a usable invite.
+ */
+
+export type InviteCodeKind = "link" | "code";
+
+export type FamilyInviteCode = {
+  id: string;
+  kind: InviteCodeKind;
+  role: MemberRole;
+  uses: number;
+  maxUses: number;
+  expiresAt: string;
+  revoked: boolean;
+  createdBy: string;
+  createdAt?: string;
+};
+
+export type NewInviteCode = {
+  kind: InviteCodeKind;
+  role: MemberRole;
+  expiresInHours: number;
+  maxUses: number;
+};
+
+export type RedeemInviteResult =
+  | { kind: "ok"; familyId: string; role: MemberRole }
+  | { kind: "already_member"; familyId: string }
+  | { kind: "removed_from_family" }
+  | { kind: "invalid_invite" }
+  | { kind: "invite_revoked" }
+  | { kind: "invite_expired" }
+  | { kind: "invite_used_up" };
+
+// Same alphabet as child pairing codes: no 0/O or 1/I.
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 8;
+const LINK_TOKEN_BYTES = 24;
+export const INVITE_CODE_DEFAULT_HOURS = 72;
+export const INVITE_CODE_MAX_HOURS = 30 * 24;
+export const INVITE_CODE_DEFAULT_USES = 10;
+export const INVITE_CODE_MAX_USES = 100;
+
+const inviteCodeSchema = {
+  familyId: field.string(),
+  kind: field.oneOf(["link", "code"], "code"),
+  role: field.oneOf(["admin", "player"], "player"),
+  uses: field.integer(),
+  maxUses: field.integer(1),
+  expiresAt: field.timestamp(),
+  revoked: field.boolean(),
+  revokedWithFamily: field.boolean(),
+  createdBy: field.string(),
+  createdAt: field.optional(field.timestamp()),
+};
+
+function inviteCodeId(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function inviteCodePath(id: string) {
+  return `inviteCodes/${id}`;
+}
+
+/** Join codes are matched case-insensitively and may be typed with spaces or dashes. */
+export function normalizeJoinCode(value: unknown) {
+  return typeof value === "string" ? value.replace(/[\s-]/g, "").toUpperCase() : "";
+}
+
+export function normalizeLinkToken(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function newInviteSecret(kind: InviteCodeKind) {
+  if (kind === "link") {
+    return randomBytes(LINK_TOKEN_BYTES).toString("base64url");
+  }
+  return Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)],
+  ).join("");
+}
+
+export async function createInviteCode(
+  familyId: string,
+  invite: NewInviteCode,
+  actorUid: string,
+  idToken: string,
+) {
+  const secret = newInviteSecret(invite.kind);
+  const id = inviteCodeId(secret);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + invite.expiresInHours * 60 * 60 * 1000).toISOString();
+  await commitBatch(
+    [
+      setDocumentWrite(
+        inviteCodePath(id),
+        {
+          familyId: stringField(familyId),
+          kind: stringField(invite.kind),
+          role: stringField(invite.role),
+          uses: integerField(0),
+          maxUses: integerField(invite.maxUses),
+          expiresAt: timestampField(expiresAt),
+          revoked: boolField(false),
+          createdBy: stringField(actorUid),
+          createdAt: timestampField(now.toISOString()),
+        },
+        DOCUMENT_MUST_NOT_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return { id, secret, expiresAt };
+}
+
+async function queryFamilyInviteCodes(familyId: string, idToken: string) {
+  const docs = await queryDocuments(
+    {
+      collection: "inviteCodes",
+      where: fieldFilter("familyId", "EQUAL", stringField(familyId)),
+    },
+    idToken,
+  );
+  return docs.map((doc) => ({ id: doc.id, ...decodeFields(doc.fields, inviteCodeSchema) }));
+}
+
+export async function listInviteCodes(familyId: string, idToken: string) {
+  const invites = await queryFamilyInviteCodes(familyId, idToken);
+  return invites
+    .map(
+      (invite): FamilyInviteCode => ({
+        id: invite.id,
+        kind: invite.kind,
+        role: invite.role,
+        uses: invite.uses,
+        maxUses: invite.maxUses,
+        expiresAt: invite.expiresAt,
+        revoked: invite.revoked,
+        createdBy: invite.createdBy,
+        createdAt: invite.createdAt,
+      }),
+    )
+    .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+}
+
+/**
+ * Used when a family is deleted or restored. Only invites revoked by the deletion are marked
+ * `revokedWithFamily`, so a restore does not revive ones an admin revoked by hand.
+ */
+export async function familyInviteCodeWrites(
+  familyId: string,
+  revoked: boolean,
+  now: string,
+  idToken: string,
+): Promise<FirestoreWrite[]> {
+  const invites = await queryFamilyInviteCodes(familyId, idToken);
+  return invites
+    .filter((invite) => (revoked ? !invite.revoked : invite.revokedWithFamily))
+    .map((invite) =>
+      updateDocumentWrite(inviteCodePath(invite.id), {
+        revoked: boolField(revoked),
+        revokedWithFamily: boolField(revoked),
+        revokedAt: timestampField(now),
+      }),
+    );
+}
+
+/** False when the invite does not exist or belongs to another family. */
+export async function revokeInviteCode(familyId: string, id: string, idToken: string) {
+  try {
+    const doc = await getDocument(inviteCodePath(id), idToken);
+    if (decodeFields(doc.fields, inviteCodeSchema).familyId !== familyId) {
+      return false;
+    }
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+  await commitBatch(
+    [
+      updateDocumentWrite(
+        inviteCodePath(id),
+        { revoked: boolField(true), revokedAt: timestampField(new Date().toISOString()) },
+        undefined,
+        DOCUMENT_MUST_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return true;
+}
+
+/**
+ * Joins the invite's family with its role. The use is counted in the same transaction that
+ * creates the member doc, so a code can never admit more members than `maxUses`.
+ */
+export async function redeemInviteCode(secret: string, session: SessionUser, idToken: string) {
+  const id = inviteCodeId(secret);
+  return runTransaction<RedeemInviteResult>(idToken, async (tx) => {
+    const doc = await tx.get(inviteCodePath(id));
+    if (!doc) {
+      return { writes: [], result: { kind: "invalid_invite" } };
+    }
+    const invite = decodeFields(doc.fields, inviteCodeSchema);
+    if (invite.revoked) {
+      return { writes: [], result: { kind: "invite_revoked" } };
+    }
+    if (Date.parse(invite.expiresAt) <= Date.now()) {
+      return { writes: [], result: { kind: "invite_expired" } };
+    }
+
+    const memberPath = `families/${invite.familyId}/members/${session.uid}`;
+    const memberDoc = await tx.get(memberPath);
+    const now = new Date().toISOString();
+    if (memberDoc) {
+      // Removed members need a fresh invite from an admin; an invite link is not enough.
+      if (readBoolean(memberDoc.fields, "deleted")) {
+        return { writes: [], result: { kind: "removed_from_family" } };
+      }
+      return {
+        writes: [linkUserFamilyWrite(session.uid, invite.familyId, now)],
+        result: { kind: "already_member", familyId: invite.familyId },
+      };
+    }
+    if (invite.uses >= invite.maxUses) {
+      return { writes: [], result: { kind: "invite_used_up" } };
+    }
+
+    return {
+      writes: [
+        updateDocumentWrite(inviteCodePath(id), {
+          uses: integerField(invite.uses + 1),
+          lastUsedAt: timestampField(now),
+        }),
+        setDocumentWrite(
+          memberPath,
+          {
+            name: stringField(session.name || "Family member"),
+            email: stringField(session.email.trim().toLowerCase()),
+            role: stringField(invite.role),
+            status: stringField("active"),
+            deleted: boolField(false),
+            uid: stringField(session.uid),
+            inviteCodeId: stringField(id),
+            createdBy: stringField(invite.createdBy),
+            createdAt: timestampField(now),
+            acceptedInviteAt: timestampField(now),
+          },
+          DOCUMENT_MUST_NOT_EXIST,
+        ),
+        linkUserFamilyWrite(session.uid, invite.familyId, now),
+      ],
+      result: { kind: "ok", familyId: invite.familyId, role: invite.role },
+    };
+  });
+}
@@ -0,0 +1,171 @@
+import type { SessionUser } from "@/lib/auth/session";
+import { getMemberRole, toMemberRole } from "@/lib/family/permissions";
+import type { FamilyMembershipSummary } from "@/lib/family/types";
+import { FirestoreNotFoundError, FirestorePermissionDeniedError } from "@/lib/firestore/errors";
+import {
+  arrayRemoveTransform,
+  arrayUnionTransform,
+  commitBatch,
+  documentName,
+  DOCUMENT_MUST_EXIST,
+  type FirestoreWrite,
+  getDocument,
+  readBoolean,
+  readString,
+  readStringArray,
+  stringField,
+  timestampField,
+} from "@/lib/firestore/rest";
+
+export async function getUserFamilyIds(uid: string, idToken: string) {
+  try {
+    const userDoc = await getDocument(`users/${uid}`, idToken);
+    return readStringArray(userDoc.fields, "familyIds");
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/** The session's selected family while it is still listed, otherwise the first one. */
+export function pickActiveFamilyId(familyIds: string[], activeFamilyId: string | undefined) {
+  if (activeFamilyId && familyIds.includes(activeFamilyId)) {
+    return activeFamilyId;
+  }
+  return familyIds[0] ?? "";
+}
+
+/** Every listed family, the session's selection first. */
+export function familiesInPreferenceOrder(
+  familyIds: string[],
+  activeFamilyId: string | undefined,
+) {
+  const preferred = pickActiveFamilyId(familyIds, activeFamilyId);
+  return preferred ? [preferred, ...familyIds.filter((id) => id !== preferred)] : [];
+}
+
+async function readIfAccessible(path: string, idToken: string) {
+  try {
+    return await getDocument(path, idToken);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError || error instanceof FirestorePermissionDeniedError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** False once the family has been deleted, including during its restore grace period. */
+export async function isFamilyAvailable(familyId: string, idToken: string) {
+  const familyDoc = await readIfAccessible(`families/${familyId}`, idToken);
+  return Boolean(familyDoc) && !readBoolean(familyDoc?.fields, "deleted");
+}
+
+async function hasFamilyMembership(
+  familyId: string,
+  session: SessionUser,
+  idToken: string,
+  includePendingInvite: boolean,
+) {
+  if (await getMemberRole(familyId, session.uid, idToken)) {
+    return true;
+  }
+  const email = session.email.trim().toLowerCase();
+  if (!includePendingInvite || !email) {
+    return false;
+  }
+  const inviteDoc = await readIfAccessible(`families/${familyId}/members/${email}`, idToken);
+  return Boolean(inviteDoc) && !readBoolean(inviteDoc?.fields, "deleted");
+}
+
+/**
+ * The family a request operates on, with the caller's membership verified. Families the
+ * user has been removed from or that were deleted are skipped, so a stale selection falls
+ * back to the next family they still belong to. `includePendingInvite` also accepts a
+ * family whose email invite the user has not accepted yet. Returns "" when there is none.
+ */
+export async function getActiveFamilyId(
+  session: SessionUser,
+  idToken: string,
+  { includePendingInvite = false }: { includePendingInvite?: boolean } = {},
+) {
+  const familyIds = await getUserFamilyIds(session.uid, idToken);
+  for (const familyId of familiesInPreferenceOrder(familyIds, session.activeFamilyId)) {
+    if (
+      (await hasFamilyMembership(familyId, session, idToken, includePendingInvite)) &&
+      (await isFamilyAvailable(familyId, idToken))
+    ) {
+      return familyId;
+    }
+  }
+  return "";
+}
+
+/**
+ * Every family the user is an active member of or has a pending email invite to, in the
+ * order of `users/{uid}.familyIds`. Families they were removed from or that were deleted
+ * are left out.
+ */
+export async function listUserFamilies(session: SessionUser, idToken: string) {
+  const familyIds = await getUserFamilyIds(session.uid, idToken);
+  const email = session.email.trim().toLowerCase();
+  const families = await Promise.all(
+    familyIds.map(async (familyId): Promise<FamilyMembershipSummary | null> => {
+      const uidMemberDoc = await readIfAccessible(
+        `families/${familyId}/members/${session.uid}`,
+        idToken,
+      );
+      const memberDoc =
+        uidMemberDoc ??
+        (email ? await readIfAccessible(`families/${familyId}/members/${email}`, idToken) : null);
+      if (!memberDoc || readBoolean(memberDoc.fields, "deleted")) {
+        return null;
+      }
+      const familyDoc = await readIfAccessible(`families/${familyId}`, idToken);
+      if (readBoolean(familyDoc?.fields, "deleted")) {
+        return null;
+      }
+      const active = Boolean(uidMemberDoc) && readString(memberDoc.fields, "status") !== "invited";
+      return {
+        id: familyId,
+        name: readString(familyDoc?.fields, "name") || "My Family",
+        role: toMemberRole(readString(memberDoc.fields, "role")),
+        status: active ? "active" : "invited",
+      };
+    }),
+  );
+  return families.filter((family) => family !== null);
+}
+
+/**
+ * Adds a family to the user's list without dropping the others. Creates the user doc when
+ * it does not exist yet.
+ */
+export function linkUserFamilyWrite(uid: string, familyId: string, now: string): FirestoreWrite {
+  const fields = {
+    uid: stringField(uid),
+    lastFamilyUpdateAt: timestampField(now),
+  };
+  return {
+    update: { name: documentName(`users/${uid}`), fields },
+    updateMask: { fieldPaths: Object.keys(fields) },
+    updateTransforms: [arrayUnionTransform("familyIds", [familyId])],
+  };
+}
+
+export async function linkUserFamily(uid: string, familyId: string, idToken: string) {
+  await commitBatch([linkUserFamilyWrite(uid, familyId, new Date().toISOString())], idToken);
+}
+
+/** Drops a family from the user's list, leaving the others untouched. */
+export function unlinkUserFamilyWrite(uid: string, familyId: string, now: string): FirestoreWrite {
+  const fields = { lastFamilyUpdateAt: timestampField(now) };
+  return {
+    update: { name: documentName(`users/${uid}`), fields },
+    updateMask: { fieldPaths: Object.keys(fields) },
+    updateTransforms: [arrayRemoveTransform("familyIds", [familyId])],
+    currentDocument: DOCUMENT_MUST_EXIST,
+  };
+}
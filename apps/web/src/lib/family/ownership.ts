@@ -0,0 +1,115 @@
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  commitBatch,
+  DOCUMENT_MUST_EXIST,
+  documentIdFromName,
+  getDocument,
+  listAllDocuments,
+  readString,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+
+/**
+ * The owner is the family doc's `createdBy`. Rules keep the owner's member doc an active
+ * admin, which is what guarantees a family is never left without an admin.
+ */
+
+export type TransferOwnershipResult =
+  | { kind: "ok"; ownerUid: string }
+  | { kind: "not_owner" }
+  | { kind: "member_not_found" }
+  | { kind: "member_cannot_own" };
+
+const adminCheckSchema = {
+  uid: field.string(),
+  role: field.oneOf(["admin", "player"], "player"),
+  status: field.oneOf(["active", "invited"], "invited"),
+  accountType: field.string(),
+  deleted: field.boolean(),
+};
+
+export async function getFamilyOwnerUid(familyId: string, idToken: string) {
+  const familyDoc = await getDocument(`families/${familyId}`, idToken);
+  return readString(familyDoc.fields, "createdBy");
+}
+
+/** Signed-in admins: uid-keyed, active and not removed. Pending admin invites do not count. */
+export async function listActiveAdminIds(familyId: string, idToken: string) {
+  const memberDocs = await listAllDocuments(`families/${familyId}/members`, idToken);
+  return memberDocs
+    .map((doc) => ({
+      id: documentIdFromName(doc.name),
+      ...decodeFields(doc.fields, adminCheckSchema),
+    }))
+    .filter(
+      (member) =>
+        !member.deleted &&
+        member.role === "admin" &&
+        member.status === "active" &&
+        member.uid === member.id,
+    )
+    .map((member) => member.id);
+}
+
+/**
+ * Hands the family to another signed-in member, promoting them to admin in the same batch.
+ * The previous owner stays an admin; they can be demoted afterwards like anyone else.
+ */
+export async function transferOwnership(
+  familyId: string,
+  actorUid: string,
+  newOwnerId: string,
+  idToken: string,
+): Promise<TransferOwnershipResult> {
+  const [ownerUid, memberDoc] = await Promise.all([
+    getFamilyOwnerUid(familyId, idToken),
+    getDocument(`families/${familyId}/members/${newOwnerId}`, idToken).catch(
+      (error: unknown) => {
+        if (error instanceof FirestoreNotFoundError) {
+          return null;
+        }
+        throw error;
+      },
+    ),
+  ]);
+  if (ownerUid !== actorUid) {
+    return { kind: "not_owner" };
+  }
+  if (!memberDoc) {
+    return { kind: "member_not_found" };
+  }
+  const member = decodeFields(memberDoc.fields, adminCheckSchema);
+  if (member.deleted) {
+    return { kind: "member_not_found" };
+  }
+  if (member.uid !== newOwnerId || member.status !== "active" || member.accountType === "child") {
+    return { kind: "member_cannot_own" };
+  }
+
+  const now = new Date().toISOString();
+  await commitBatch(
+    [
+      updateDocumentWrite(
+        `families/${familyId}/members/${newOwnerId}`,
+        { role: stringField("admin"), updatedAt: timestampField(now) },
+        ["role", "updatedAt"],
+        DOCUMENT_MUST_EXIST,
+      ),
+      updateDocumentWrite(
+        `families/${familyId}`,
+        {
+          createdBy: stringField(newOwnerId),
+          previousOwner: stringField(actorUid),
+          ownershipTransferredAt: timestampField(now),
+        },
+        ["createdBy", "previousOwner", "ownershipTransferredAt"],
+        DOCUMENT_MUST_EXIST,
+      ),
+    ],
+    idToken,
+  );
+  return { kind: "ok", ownerUid: newOwnerId };
+}
@@ -0,0 +1,69 @@
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import { getDocument, readBoolean, readString } from "@/lib/firestore/rest";
+
+export type MemberRole = "admin" | "player";
+
+export type FamilyPermission =
+  | "chores:create"
+  | "chores:edit"
+  | "chores:delete"
+  | "chores:review"
+  /** Submit chores assigned to someone else. */
+  | "chores:submit_any"
+  | "schedules:manage"
+  | "members:manage"
+  | "wallet:adjust"
+  | "family:settings"
+  /** Shop, equip avatars and view inventory on behalf of another member. */
+  | "members:act_for";
+
+// Rules enforce the same split; keep both in step when a permission moves between roles.
+const ROLE_PERMISSIONS: Record<MemberRole, ReadonlySet<FamilyPermission>> = {
+  admin: new Set<FamilyPermission>([
+    "chores:create",
+    "chores:edit",
+    "chores:delete",
+    "chores:review",
+    "chores:submit_any",
+    "schedules:manage",
+    "members:manage",
+    "wallet:adjust",
+    "family:settings",
+    "members:act_for",
+  ]),
+  player: new Set<FamilyPermission>(),
+};
+
+export function toMemberRole(value: string): MemberRole {
+  return value === "admin" ? "admin" : "player";
+}
+
+export function roleHasPermission(role: MemberRole, permission: FamilyPermission) {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+/** The caller's role in the family, or null when they have no active member doc. */
+export async function getMemberRole(familyId: string, uid: string, idToken: string) {
+  try {
+    const memberDoc = await getDocument(`families/${familyId}/members/${uid}`, idToken);
+    if (readBoolean(memberDoc.fields, "deleted")) {
+      return null;
+    }
+    return toMemberRole(readString(memberDoc.fields, "role"));
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function hasFamilyPermission(
+  familyId: string,
+  uid: string,
+  permission: FamilyPermission,
+  idToken: string,
+) {
+  const role = await getMemberRole(familyId, uid, idToken);
+  return role !== null && roleHasPermission(role, permission);
+}
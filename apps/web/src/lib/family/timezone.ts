@@ -0,0 +1,42 @@
+import { type FirestoreValue, readString } from "@/lib/firestore/rest";
+
+export const DEFAULT_FAMILY_TIMEZONE = "UTC";
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function readFamilyTimeZone(fields: Record<string, FirestoreValue> | undefined) {
+  const timeZone = readString(fields, "timezone");
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_FAMILY_TIMEZONE;
+}
+
+/** Returns the calendar date (YYYY-MM-DD) the family sees at `at` in its timezone. */
+export function localDateInTimeZone(timeZone: string, at: Date = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_FAMILY_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((entry) => entry.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** The browser's own timezone, used as the default for newly created families. */
+export function detectBrowserTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_FAMILY_TIMEZONE;
+  } catch {
+    return DEFAULT_FAMILY_TIMEZONE;
+  }
+}
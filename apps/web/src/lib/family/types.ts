@@ -1,3 +1,5 @@
+import type { AvatarLoadout } from "@/lib/shop/avatar";
+
 export type FamilySnapshotMember = {
   id: string;
   uid?: string;
@@ -6,6 +8,8 @@ export type FamilySnapshotMember = {
   role: "admin" | "player";
   status: "active" | "invited";
   lastSignInAt?: string;
+  coinBalance: number;
+  avatar: AvatarLoadout;
 };
 
 export type FamilyPendingInvite = {
@@ -20,13 +24,23 @@ export type FamilyPendingInvite = {
   } | null;
 };
 
+/** One entry of the family switcher. Pending invites are listed so they can be opened. */
+export type FamilyMembershipSummary = {
+  id: string;
+  name: string;
+  role: "admin" | "player";
+  status: "active" | "invited";
+};
+
 export type FamilySnapshotChore = {
   id: string;
   title: string;
   status: "Open" | "Submitted" | "Approved" | "Rejected" | "Unknown";
+  assigneeId?: string;
   assigneeName: string;
   dueDate: string;
   coinValue: number;
+  reviewNote?: string;
 };
 
 export type FamilySummaryResponse = {
@@ -35,6 +49,9 @@ export type FamilySummaryResponse = {
   family: null | {
     id: string;
     name: string;
+    // IANA timezone and the family's current local date in it.
+    timezone: string;
+    today: string;
   };
   members: FamilySnapshotMember[];
   choresToday: FamilySnapshotChore[];
@@ -0,0 +1,364 @@
+import { randomUUID } from "node:crypto";
+import { decodeFields, encodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreConflictError, FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  commitWrites,
+  documentIdFromName,
+  documentName,
+  type FirestoreValue,
+  type FirestoreWrite,
+  getDocument,
+  integerField,
+  orderByField,
+  queryDocuments,
+  readInteger,
+  readTimestamp,
+  referenceField,
+  stringField,
+  timestampField,
+} from "@/lib/firestore/rest";
+
+export type LedgerEntryKind = "credit" | "debit";
+
+export type LedgerEntryReason = "chore_approval" | "adjustment" | "purchase" | "reversal";
+
+export type LedgerEntry = {
+  id: string;
+  memberId: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  reason: LedgerEntryReason;
+  note: string;
+  choreId?: string;
+  itemId?: string;
+  reversesEntryId?: string;
+  balanceAfter: number;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type WalletSnapshot = {
+  memberId: string;
+  balance: number;
+  updatedAt?: string;
+};
+
+type AppendLedgerEntryInput = {
+  familyId: string;
+  memberId: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  reason: LedgerEntryReason;
+  note?: string;
+  choreId?: string;
+  itemId?: string;
+  reversesEntryId?: string;
+  entryId?: string;
+  createdBy: string;
+  idToken: string;
+  // Extra writes committed atomically with the ledger entry (e.g. the chore status change).
+  extraWrites?: FirestoreWrite[];
+  // Re-checked after a conflict when `extraWrites` carry their own preconditions. Returning
+  // false throws `StaleLedgerWritesError`, since re-reading the wallet cannot make them pass.
+  extraWritesCurrent?: () => Promise<boolean>;
+};
+
+export type AppendLedgerEntryResult =
+  | { kind: "ok"; entry: LedgerEntry }
+  | { kind: "duplicate_entry"; entryId: string }
+  | { kind: "insufficient_funds"; balance: number };
+
+/** The precondition of an extra write can no longer pass; retrying would not help. */
+export class StaleLedgerWritesError extends Error {
+  constructor() {
+    super("LEDGER_EXTRA_WRITES_STALE");
+  }
+}
+
+export const MAX_LEDGER_PAGE_SIZE = 100;
+const MAX_COMMIT_ATTEMPTS = 3;
+
+export function walletPath(familyId: string, memberId: string) {
+  return `families/${familyId}/wallets/${memberId}`;
+}
+
+function ledgerEntryPath(familyId: string, memberId: string, entryId: string) {
+  return `${walletPath(familyId, memberId)}/ledger/${entryId}`;
+}
+
+const ledgerEntrySchema = {
+  memberId: field.string(),
+  kind: field.oneOf<LedgerEntryKind>(["credit", "debit"], "credit"),
+  amount: field.integer(),
+  reason: field.oneOf<LedgerEntryReason>(
+    ["chore_approval", "adjustment", "purchase", "reversal"],
+    "adjustment",
+  ),
+  note: field.string(),
+  choreId: field.optionalString(),
+  itemId: field.optionalString(),
+  reversesEntryId: field.optionalString(),
+  balanceAfter: field.integer(),
+  createdBy: field.string(),
+  createdAt: field.timestamp(),
+};
+
+export function normalizeLedgerEntryDoc(doc: {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+}): LedgerEntry {
+  return { id: documentIdFromName(doc.name), ...decodeFields(doc.fields, ledgerEntrySchema) };
+}
+
+function signedAmount(entry: Pick<LedgerEntry, "kind" | "amount">) {
+  return entry.kind === "debit" ? -entry.amount : entry.amount;
+}
+
+async function readWalletDoc(familyId: string, memberId: string, idToken: string) {
+  try {
+    return await getDocument(walletPath(familyId, memberId), idToken);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function ledgerEntryExists(
+  familyId: string,
+  memberId: string,
+  entryId: string,
+  idToken: string,
+) {
+  try {
+    await getDocument(ledgerEntryPath(familyId, memberId, entryId), idToken);
+    return true;
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function getWallet(
+  familyId: string,
+  memberId: string,
+  idToken: string,
+): Promise<WalletSnapshot> {
+  const walletDoc = await readWalletDoc(familyId, memberId, idToken);
+  return {
+    memberId,
+    balance: readInteger(walletDoc?.fields, "balance"),
+    updatedAt: readTimestamp(walletDoc?.fields, "updatedAt") || undefined,
+  };
+}
+
+/**
+ * Appends an entry to the member's ledger and moves the cached wallet balance in the
+ * same commit. The wallet's update time is used as a precondition so concurrent
+ * writers retry instead of overwriting each other's balance.
+ */
+export async function appendLedgerEntry({
+  familyId,
+  memberId,
+  kind,
+  amount,
+  reason,
+  note = "",
+  choreId,
+  itemId,
+  reversesEntryId,
+  entryId = randomUUID(),
+  createdBy,
+  idToken,
+  extraWrites = [],
+  extraWritesCurrent,
+}: AppendLedgerEntryInput): Promise<AppendLedgerEntryResult> {
+  const normalizedAmount = Math.max(0, Math.floor(amount));
+
+  for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt += 1) {
+    const walletDoc = await readWalletDoc(familyId, memberId, idToken);
+    const balance = readInteger(walletDoc?.fields, "balance");
+    const balanceAfter = balance + signedAmount({ kind, amount: normalizedAmount });
+    if (balanceAfter < 0) {
+      return { kind: "insufficient_funds", balance };
+    }
+
+    const now = new Date().toISOString();
+    const entry: LedgerEntry = {
+      id: entryId,
+      memberId,
+      kind,
+      amount: normalizedAmount,
+      reason,
+      note,
+      choreId,
+      itemId,
+      reversesEntryId,
+      balanceAfter,
+      createdBy,
+      createdAt: now,
+    };
+
+    const writes: FirestoreWrite[] = [
+      {
+        update: {
+          name: documentName(ledgerEntryPath(familyId, memberId, entryId)),
+          fields: encodeFields(entry, ledgerEntrySchema),
+        },
+        currentDocument: { exists: false },
+      },
+      {
+        update: {
+          name: documentName(walletPath(familyId, memberId)),
+          fields: {
+            memberId: stringField(memberId),
+            balance: integerField(balanceAfter),
+            lastEntryId: stringField(entryId),
+            updatedAt: timestampField(now),
+          },
+        },
+        currentDocument: walletDoc?.updateTime
+          ? { updateTime: walletDoc.updateTime }
+          : { exists: false },
+      },
+      ...extraWrites,
+    ];
+
+    try {
+      await commitWrites(writes, idToken);
+      return { kind: "ok", entry };
+    } catch (error) {
+      if (!(error instanceof FirestoreConflictError)) {
+        throw error;
+      }
+      if (await ledgerEntryExists(familyId, memberId, entryId, idToken)) {
+        return { kind: "duplicate_entry", entryId };
+      }
+      if (extraWritesCurrent && !(await extraWritesCurrent())) {
+        throw new StaleLedgerWritesError();
+      }
+      if (attempt === MAX_COMMIT_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("LEDGER_COMMIT_EXHAUSTED");
+}
+
+type LedgerCursor = {
+  createdAt: string;
+  id: string;
+};
+
+function encodeLedgerCursor(entry: LedgerEntry) {
+  const cursor: LedgerCursor = { createdAt: entry.createdAt, id: entry.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeLedgerCursor(value: string): LedgerCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as LedgerCursor;
+    if (typeof parsed.createdAt !== "string" || typeof parsed.id !== "string") {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function listLedgerEntries(
+  familyId: string,
+  memberId: string,
+  options: { cursor?: string; limit?: number },
+  idToken: string,
+) {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? 25), 1), MAX_LEDGER_PAGE_SIZE);
+  const cursor = options.cursor ? decodeLedgerCursor(options.cursor) : null;
+  if (options.cursor && !cursor) {
+    return { kind: "invalid_cursor" as const };
+  }
+
+  const docs = await queryDocuments(
+    {
+      parent: walletPath(familyId, memberId),
+      collection: "ledger",
+      orderBy: [orderByField("createdAt", "DESCENDING"), orderByField("__name__", "DESCENDING")],
+      startAfter: cursor
+        ? [
+            timestampField(cursor.createdAt),
+            referenceField(ledgerEntryPath(familyId, memberId, cursor.id)),
+          ]
+        : undefined,
+      // Fetch one extra row to know whether another page exists.
+      limit: limit + 1,
+    },
+    idToken,
+  );
+
+  const entries = docs.slice(0, limit).map((doc) => normalizeLedgerEntryDoc(doc));
+  const lastEntry = entries[entries.length - 1];
+  return {
+    kind: "ok" as const,
+    entries,
+    nextCursor: docs.length > limit && lastEntry ? encodeLedgerCursor(lastEntry) : null,
+  };
+}
+
+/** Rebuilds a member's balance from the full ledger, independent of the cached wallet. */
+export async function computeLedgerBalance(
+  familyId: string,
+  memberId: string,
+  idToken: string,
+) {
+  let balance = 0;
+  let entryCount = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await listLedgerEntries(
+      familyId,
+      memberId,
+      { cursor, limit: MAX_LEDGER_PAGE_SIZE },
+      idToken,
+    );
+    if (page.kind !== "ok") {
+      break;
+    }
+    for (const entry of page.entries) {
+      balance += signedAmount(entry);
+      entryCount += 1;
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return { balance, entryCount };
+}
+
+export async function getLedgerEntry(
+  familyId: string,
+  memberId: string,
+  entryId: string,
+  idToken: string,
+) {
+  try {
+    const doc = await getDocument(ledgerEntryPath(familyId, memberId, entryId), idToken);
+    return normalizeLedgerEntryDoc(doc);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function reversalEntryId(entryId: string) {
+  return `reversal-${entryId}`;
+}
+
+export function choreApprovalEntryId(choreId: string) {
+  return `chore-${choreId}`;
+}
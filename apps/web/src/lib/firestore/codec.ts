@@ -0,0 +1,353 @@
+import { documentName, type FirestoreFields, type FirestoreValue } from "@/lib/firestore/rest";
+
+/** A decoded `referenceValue`, as a document path relative to the database root. */
+export type DocumentReference = { referencePath: string };
+
+export type GeoPoint = { latitude: number; longitude: number };
+
+export type PlainValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Date
+  | Uint8Array
+  | DocumentReference
+  | { geoPoint: GeoPoint }
+  | PlainValue[]
+  | { [key: string]: PlainValue };
+
+export function documentReference(path: string): DocumentReference {
+  return { referencePath: path };
+}
+
+function isDocumentReference(value: object): value is DocumentReference {
+  return (
+    Object.keys(value).length === 1 &&
+    typeof (value as DocumentReference).referencePath === "string"
+  );
+}
+
+function isGeoPoint(value: object): value is { geoPoint: GeoPoint } {
+  const geoPoint = (value as { geoPoint?: Partial<GeoPoint> }).geoPoint;
+  return (
+    Object.keys(value).length === 1 &&
+    typeof geoPoint?.latitude === "number" &&
+    typeof geoPoint.longitude === "number"
+  );
+}
+
+function pathFromReferenceName(name: string) {
+  const marker = "/documents/";
+  const index = name.indexOf(marker);
+  return index === -1 ? name : name.slice(index + marker.length);
+}
+
+/**
+ * Encodes a plain JS value. Whole numbers become integers and everything else a double;
+ * `undefined` is not representable and is dropped from maps by `encodeObject`.
+ */
+export function encodeValue(value: PlainValue): FirestoreValue {
+  if (value === null) {
+    return { nullValue: null };
+  }
+  if (typeof value === "boolean") {
+    return { booleanValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value)
+      ? { integerValue: String(value) }
+      : { doubleValue: Number.isFinite(value) ? value : 0 };
+  }
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (value instanceof Date) {
+    return { timestampValue: value.toISOString() };
+  }
+  if (value instanceof Uint8Array) {
+    return { bytesValue: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((entry) => encodeValue(entry)) } };
+  }
+  if (isDocumentReference(value)) {
+    return { referenceValue: documentName(value.referencePath) };
+  }
+  if (isGeoPoint(value)) {
+    return { geoPointValue: value.geoPoint };
+  }
+  return { mapValue: { fields: encodeObject(value) } };
+}
+
+export function encodeObject(value: { [key: string]: PlainValue | undefined }): FirestoreFields {
+  const fields: FirestoreFields = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined) {
+      fields[key] = encodeValue(entry);
+    }
+  }
+  return fields;
+}
+
+/** Inverse of `encodeValue`; timestamps decode to `Date` and integers to numbers. */
+export function decodeValue(value: FirestoreValue): PlainValue {
+  if ("nullValue" in value) {
+    return null;
+  }
+  if ("booleanValue" in value) {
+    return value.booleanValue;
+  }
+  if ("integerValue" in value) {
+    return Number(value.integerValue);
+  }
+  if ("doubleValue" in value) {
+    return Number(value.doubleValue);
+  }
+  if ("stringValue" in value) {
+    return value.stringValue;
+  }
+  if ("timestampValue" in value) {
+    return new Date(value.timestampValue);
+  }
+  if ("bytesValue" in value) {
+    return new Uint8Array(Buffer.from(value.bytesValue, "base64"));
+  }
+  if ("referenceValue" in value) {
+    return documentReference(pathFromReferenceName(value.referenceValue));
+  }
+  if ("geoPointValue" in value) {
+    return {
+      geoPoint: {
+        latitude: value.geoPointValue.latitude ?? 0,
+        longitude: value.geoPointValue.longitude ?? 0,
+      },
+    };
+  }
+  if ("arrayValue" in value) {
+    return (value.arrayValue.values ?? []).map((entry) => decodeValue(entry));
+  }
+  return decodeObject(value.mapValue.fields);
+}
+
+export function decodeObject(fields: FirestoreFields | undefined) {
+  const result: { [key: string]: PlainValue } = {};
+  for (const [key, entry] of Object.entries(fields ?? {})) {
+    result[key] = decodeValue(entry);
+  }
+  return result;
+}
+
+/**
+ * Reads and writes one field. Decoding is lenient in the same way the `read*` helpers are:
+ * missing or mistyped values fall back to the field's default instead of throwing.
+ */
+export type FieldCodec<T> = {
+  decode(value: FirestoreValue | undefined): T;
+  encode(value: T): FirestoreValue;
+};
+
+export type Schema = Record<string, FieldCodec<unknown>>;
+
+export type Decoded<S extends Schema> = {
+  [K in keyof S]: S[K] extends FieldCodec<infer T> ? T : never;
+};
+
+function toNumber(value: FirestoreValue | undefined) {
+  if (!value) {
+    return NaN;
+  }
+  if ("integerValue" in value) {
+    return Number(value.integerValue);
+  }
+  if ("doubleValue" in value) {
+    return Number(value.doubleValue);
+  }
+  if ("stringValue" in value) {
+    return Number(value.stringValue);
+  }
+  return NaN;
+}
+
+/** With a fallback, an empty string reads as missing, like `readString(...) || fallback`. */
+function stringCodec(fallback = ""): FieldCodec<string> {
+  return {
+    decode: (value) => (value && "stringValue" in value && value.stringValue) || fallback,
+    encode: (value) => ({ stringValue: value }),
+  };
+}
+
+function optionalStringCodec(): FieldCodec<string | undefined> {
+  // Stored as "" so update masks and rules always see the field.
+  return {
+    decode: (value) => (value && "stringValue" in value && value.stringValue) || undefined,
+    encode: (value) => ({ stringValue: value ?? "" }),
+  };
+}
+
+function integerCodec(fallback = 0): FieldCodec<number> {
+  return {
+    decode: (value) => {
+      const parsed = Math.trunc(toNumber(value));
+      return Number.isFinite(parsed) ? parsed : fallback;
+    },
+    encode: (value) => ({ integerValue: String(Math.trunc(value)) }),
+  };
+}
+
+function doubleCodec(fallback = 0): FieldCodec<number> {
+  return {
+    decode: (value) => {
+      const parsed = toNumber(value);
+      return Number.isFinite(parsed) ? parsed : fallback;
+    },
+    encode: (value) => ({ doubleValue: Number.isFinite(value) ? value : fallback }),
+  };
+}
+
+function booleanCodec(fallback = false): FieldCodec<boolean> {
+  return {
+    decode: (value) => {
+      if (value && "booleanValue" in value) {
+        return value.booleanValue;
+      }
+      if (value && "stringValue" in value) {
+        return value.stringValue === "true";
+      }
+      return fallback;
+    },
+    encode: (value) => ({ booleanValue: value }),
+  };
+}
+
+/** ISO-8601 strings, which is how the rest of the app passes timestamps around. */
+function timestampCodec(): FieldCodec<string> {
+  return {
+    decode: (value) => {
+      if (value && "timestampValue" in value) {
+        return value.timestampValue;
+      }
+      return value && "stringValue" in value ? value.stringValue : "";
+    },
+    encode: (value) => ({ timestampValue: value }),
+  };
+}
+
+function referenceCodec(): FieldCodec<string> {
+  return {
+    decode: (value) =>
+      value && "referenceValue" in value ? pathFromReferenceName(value.referenceValue) : "",
+    encode: (value) => ({ referenceValue: documentName(value) }),
+  };
+}
+
+/** Pass `undefined` as the fallback for enums that are optional on the document. */
+function oneOfCodec<T extends string, F extends T | undefined = T>(
+  values: readonly T[],
+  fallback: F,
+): FieldCodec<T | F> {
+  return {
+    decode: (value) => {
+      const raw = value && "stringValue" in value ? value.stringValue : "";
+      return (values as readonly string[]).includes(raw) ? (raw as T) : fallback;
+    },
+    encode: (value) => ({ stringValue: value ?? "" }),
+  };
+}
+
+/** Missing, null and empty-string values read as `undefined`, which is written back as null. */
+function optionalCodec<T>(inner: FieldCodec<T>): FieldCodec<T | undefined> {
+  return {
+    decode: (value) =>
+      !value || "nullValue" in value || ("stringValue" in value && !value.stringValue)
+        ? undefined
+        : inner.decode(value),
+    encode: (value) => (value === undefined ? { nullValue: null } : inner.encode(value)),
+  };
+}
+
+function nullableCodec<T>(inner: FieldCodec<T>): FieldCodec<T | null> {
+  return {
+    decode: (value) => (!value || "nullValue" in value ? null : inner.decode(value)),
+    encode: (value) => (value === null ? { nullValue: null } : inner.encode(value)),
+  };
+}
+
+function arrayCodec<T>(item: FieldCodec<T>): FieldCodec<T[]> {
+  return {
+    decode: (value) =>
+      value && "arrayValue" in value
+        ? (value.arrayValue.values ?? []).map((entry) => item.decode(entry))
+        : [],
+    encode: (value) => ({ arrayValue: { values: value.map((entry) => item.encode(entry)) } }),
+  };
+}
+
+function mapCodec<S extends Schema>(schema: S): FieldCodec<Decoded<S>> {
+  return {
+    decode: (value) =>
+      decodeFields(value && "mapValue" in value ? value.mapValue.fields : {}, schema),
+    encode: (value) => ({ mapValue: { fields: encodeFields(value, schema) } }),
+  };
+}
+
+/** A map keyed by arbitrary ids (e.g. per-member settings) with one codec for every value. */
+function recordCodec<T>(entry: FieldCodec<T>): FieldCodec<Record<string, T>> {
+  return {
+    decode: (value) => {
+      const fields = value && "mapValue" in value ? (value.mapValue.fields ?? {}) : {};
+      return Object.fromEntries(
+        Object.entries(fields).map(([key, item]) => [key, entry.decode(item)]),
+      );
+    },
+    encode: (value) => ({
+      mapValue: {
+        fields: Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, entry.encode(item)]),
+        ),
+      },
+    }),
+  };
+}
+
+export const field = {
+  string: stringCodec,
+  optionalString: optionalStringCodec,
+  integer: integerCodec,
+  double: doubleCodec,
+  boolean: booleanCodec,
+  timestamp: timestampCodec,
+  reference: referenceCodec,
+  oneOf: oneOfCodec,
+  nullable: nullableCodec,
+  optional: optionalCodec,
+  array: arrayCodec,
+  stringArray: () => arrayCodec(stringCodec()),
+  map: mapCodec,
+  record: recordCodec,
+};
+
+export function decodeFields<S extends Schema>(
+  fields: FirestoreFields | undefined,
+  schema: S,
+): Decoded<S> {
+  const result = {} as Record<string, unknown>;
+  for (const [key, codec] of Object.entries(schema)) {
+    result[key] = codec.decode(fields?.[key]);
+  }
+  return result as Decoded<S>;
+}
+
+/** Encodes the keys present in `value`; pass `Object.keys(result)` as the update mask. */
+export function encodeFields<S extends Schema>(
+  value: Partial<Decoded<S>>,
+  schema: S,
+): FirestoreFields {
+  const fields: FirestoreFields = {};
+  for (const [key, codec] of Object.entries(schema)) {
+    if (key in value) {
+      fields[key] = codec.encode((value as Record<string, unknown>)[key]);
+    }
+  }
+  return fields;
+}
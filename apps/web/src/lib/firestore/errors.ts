@@ -0,0 +1,51 @@
+/**
+ * Thrown for every non-2xx Firestore REST response. `status` is the HTTP status and `code`
+ * the gRPC status name (e.g. "NOT_FOUND"); the message keeps the `FIRESTORE_HTTP_*` shape
+ * that shows up in route logs.
+ */
+export class FirestoreError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly detail: string;
+
+  constructor(status: number, code: string, detail: string) {
+    super(`FIRESTORE_HTTP_${status}${code ? `_${code}` : ""}${detail ? `_${detail}` : ""}`);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+/** The ID token is missing, expired or revoked. */
+export class FirestoreUnauthenticatedError extends FirestoreError {}
+
+/** Security rules denied the request. */
+export class FirestorePermissionDeniedError extends FirestoreError {}
+
+/** The document does not exist, or an `exists: true` precondition failed. */
+export class FirestoreNotFoundError extends FirestoreError {}
+
+/** The project has no `(default)` database, which the REST API also reports as a 404. */
+export class FirestoreDatabaseMissingError extends FirestoreError {}
+
+/** A write precondition failed: `exists: false` on an existing document or a stale update. */
+export class FirestoreConflictError extends FirestoreError {}
+
+export function firestoreErrorFromResponse(status: number, code: string, detail: string) {
+  if (status === 401) {
+    return new FirestoreUnauthenticatedError(status, code, detail);
+  }
+  if (status === 403) {
+    return new FirestorePermissionDeniedError(status, code, detail);
+  }
+  if (status === 404) {
+    return /database .* does not exist/i.test(detail)
+      ? new FirestoreDatabaseMissingError(status, code, detail)
+      : new FirestoreNotFoundError(status, code, detail);
+  }
+  if (code === "FAILED_PRECONDITION" || code === "ALREADY_EXISTS") {
+    return new FirestoreConflictError(status, code, detail);
+  }
+  return new FirestoreError(status, code, detail);
+}
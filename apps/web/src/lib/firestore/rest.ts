@@ -1,8 +1,20 @@
+import {
+  FirestoreError,
+  firestoreErrorFromResponse,
+  FirestoreNotFoundError,
+  FirestorePermissionDeniedError,
+} from "@/lib/firestore/errors";
+
 type FirestorePrimitive =
   | { stringValue: string }
   | { integerValue: string }
+  | { doubleValue: number | string }
   | { timestampValue: string }
-  | { booleanValue: boolean };
+  | { booleanValue: boolean }
+  | { nullValue: null }
+  | { referenceValue: string }
+  | { bytesValue: string }
+  | { geoPointValue: { latitude?: number; longitude?: number } };
 
 type FirestoreArray = { arrayValue: { values?: FirestoreValue[] } };
 
@@ -10,15 +22,100 @@ type FirestoreMap = { mapValue: { fields?: Record<string, FirestoreValue> } };
 
 export type FirestoreValue = FirestorePrimitive | FirestoreArray | FirestoreMap;
 
+export type FirestoreFields = Record<string, FirestoreValue>;
+
 type FirestoreDocument = {
   name: string;
   fields?: Record<string, FirestoreValue>;
+  createTime?: string;
+  updateTime?: string;
 };
 
+export type FirestorePrecondition = { exists: boolean } | { updateTime: string };
+
+export type FirestoreFieldTransform = { fieldPath: string } & (
+  | { increment: FirestoreValue }
+  | { setToServerValue: "REQUEST_TIME" }
+  | { appendMissingElements: { values: FirestoreValue[] } }
+  | { removeAllFromArray: { values: FirestoreValue[] } }
+);
+
+export type FirestoreWrite =
+  | {
+      update: { name: string; fields: Record<string, FirestoreValue> };
+      updateMask?: { fieldPaths: string[] };
+      updateTransforms?: FirestoreFieldTransform[];
+      currentDocument?: FirestorePrecondition;
+    }
+  | {
+      transform: { document: string; fieldTransforms: FirestoreFieldTransform[] };
+      currentDocument?: FirestorePrecondition;
+    }
+  | {
+      delete: string;
+      currentDocument?: FirestorePrecondition;
+    };
+
 type FirestoreRunQueryResult = {
   document?: FirestoreDocument;
 };
 
+export type FieldFilterOperator =
+  | "EQUAL"
+  | "NOT_EQUAL"
+  | "LESS_THAN"
+  | "LESS_THAN_OR_EQUAL"
+  | "GREATER_THAN"
+  | "GREATER_THAN_OR_EQUAL"
+  | "ARRAY_CONTAINS"
+  | "ARRAY_CONTAINS_ANY"
+  | "IN"
+  | "NOT_IN";
+
+export type QueryFilter =
+  | {
+      fieldFilter: {
+        field: { fieldPath: string };
+        op: FieldFilterOperator;
+        value: FirestoreValue;
+      };
+    }
+  | { compositeFilter: { op: "AND" | "OR"; filters: QueryFilter[] } };
+
+export type QueryOrder = {
+  field: { fieldPath: string };
+  direction: "ASCENDING" | "DESCENDING";
+};
+
+export type StructuredQuery = {
+  select?: { fields: { fieldPath: string }[] };
+  from: { collectionId: string; allDescendants?: boolean }[];
+  where?: QueryFilter;
+  orderBy?: QueryOrder[];
+  startAt?: { values: FirestoreValue[]; before: boolean };
+  limit?: number;
+};
+
+export type QueryOptions = {
+  /** Document path the collection lives under; empty for top-level collections. */
+  parent?: string;
+  collection: string;
+  /** Query every collection with this id, at any depth (a collection-group query). */
+  allDescendants?: boolean;
+  where?: QueryFilter;
+  orderBy?: QueryOrder[];
+  /** Values of the `orderBy` fields for the last row of the previous page. */
+  startAfter?: FirestoreValue[];
+  limit?: number;
+  /** Field paths to return; other fields are omitted from the results. */
+  select?: string[];
+};
+
+export type QueryDocument = FirestoreDocument & {
+  id: string;
+  path: string;
+};
+
 function getProjectId() {
   const projectId = process.env.FIREBASE_PROJECT_ID;
   if (!projectId) {
@@ -27,16 +124,32 @@ function getProjectId() {
   return projectId;
 }
 
+function getDatabaseName() {
+  return `projects/${getProjectId()}/databases/(default)`;
+}
+
 function getBasePath() {
-  return `https://firestore.googleapis.com/v1/projects/${getProjectId()}/databases/(default)/documents`;
+  return `https://firestore.googleapis.com/v1/${getDatabaseName()}/documents`;
 }
 
 function getRunQueryPath() {
-  return `https://firestore.googleapis.com/v1/projects/${getProjectId()}/databases/(default)/documents:runQuery`;
+  return `https://firestore.googleapis.com/v1/${getDatabaseName()}/documents:runQuery`;
+}
+
+function getCommitPath() {
+  return `https://firestore.googleapis.com/v1/${getDatabaseName()}/documents:commit`;
+}
+
+function getTransactionPath(action: "beginTransaction" | "rollback") {
+  return `https://firestore.googleapis.com/v1/${getDatabaseName()}/documents:${action}`;
 }
 
 async function requestFirestore<T>(path: string, idToken: string, init?: RequestInit) {
-  const response = await fetch(`${getBasePath()}/${path}`, {
+  return requestFirestoreUrl<T>(`${getBasePath()}/${path}`, idToken, init);
+}
+
+async function requestFirestoreUrl<T>(url: string, idToken: string, init?: RequestInit) {
+  const response = await fetch(url, {
     ...init,
     headers: {
       "Content-Type": "application/json",
@@ -47,19 +160,25 @@ async function requestFirestore<T>(path: string, idToken: string, init?: Request
   });
 
   if (!response.ok) {
-    let detail = "";
-    try {
-      const json = (await response.json()) as { error?: { message?: string } };
-      detail = json.error?.message ?? "";
-    } catch {
-      detail = await response.text();
-    }
-    throw new Error(`FIRESTORE_HTTP_${response.status}${detail ? `_${detail}` : ""}`);
+    throw await readFirestoreError(response);
   }
 
   return (await response.json()) as T;
 }
 
+async function readFirestoreError(response: Response) {
+  let code = "";
+  let detail = "";
+  try {
+    const json = (await response.json()) as { error?: { message?: string; status?: string } };
+    code = json.error?.status ?? "";
+    detail = json.error?.message ?? "";
+  } catch {
+    detail = await response.text();
+  }
+  return firestoreErrorFromResponse(response.status, code, detail);
+}
+
 function familyIdFromMemberDocumentName(name: string) {
   const match = name.match(/\/families\/([^/]+)\/members\//);
   return match?.[1] ?? "";
@@ -69,13 +188,40 @@ export async function getDocument(path: string, idToken: string) {
   return requestFirestore<FirestoreDocument>(path, idToken);
 }
 
-export async function listDocuments(path: string, idToken: string, pageSize = 50) {
-  const encodedPath = `${path}?pageSize=${pageSize}`;
-  const response = await requestFirestore<{ documents?: FirestoreDocument[] }>(
-    encodedPath,
-    idToken,
-  );
-  return response.documents ?? [];
+export type FirestoreDocumentPage = {
+  documents: FirestoreDocument[];
+  nextPageToken: string;
+};
+
+export async function listDocumentsPage(
+  path: string,
+  idToken: string,
+  { pageSize = 50, pageToken = "" }: { pageSize?: number; pageToken?: string } = {},
+): Promise<FirestoreDocumentPage> {
+  const query = `pageSize=${pageSize}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ""}`;
+  const response = await requestFirestore<{
+    documents?: FirestoreDocument[];
+    nextPageToken?: string;
+  }>(`${path}?${query}`, idToken);
+  return { documents: response.documents ?? [], nextPageToken: response.nextPageToken ?? "" };
+}
+
+/** Walks every page of a collection, fetching the next page only when the caller needs it. */
+export async function* iterateDocuments(path: string, idToken: string, pageSize = 300) {
+  let pageToken = "";
+  do {
+    const page = await listDocumentsPage(path, idToken, { pageSize, pageToken });
+    yield* page.documents;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+}
+
+export async function listAllDocuments(path: string, idToken: string, pageSize = 300) {
+  const documents: FirestoreDocument[] = [];
+  for await (const doc of iterateDocuments(path, idToken, pageSize)) {
+    documents.push(doc);
+  }
+  return documents;
 }
 
 export async function patchDocument(
@@ -118,126 +264,272 @@ export async function deleteDocument(path: string, idToken: string) {
   });
 
   if (!response.ok) {
-    let detail = "";
-    try {
-      const json = (await response.json()) as { error?: { message?: string } };
-      detail = json.error?.message ?? "";
-    } catch {
-      detail = await response.text();
-    }
-    throw new Error(`FIRESTORE_HTTP_${response.status}${detail ? `_${detail}` : ""}`);
+    throw await readFirestoreError(response);
   }
 }
 
-export async function findFirstFamilyIdByMemberUid(uid: string, idToken: string) {
-  if (!uid) {
-    return "";
-  }
+export function documentName(path: string) {
+  return `${getDatabaseName()}/documents/${path}`;
+}
 
-  const response = await fetch(getRunQueryPath(), {
+export async function commitWrites(
+  writes: FirestoreWrite[],
+  idToken: string,
+  transaction?: string,
+) {
+  return requestFirestoreUrl<{ commitTime?: string }>(getCommitPath(), idToken, {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${idToken}`,
-    },
-    body: JSON.stringify({
-      structuredQuery: {
-        from: [{ collectionId: "members", allDescendants: true }],
-        where: {
-          fieldFilter: {
-            field: { fieldPath: "uid" },
-            op: "EQUAL",
-            value: { stringValue: uid },
-          },
-        },
-        limit: 20,
-      },
-    }),
-    cache: "no-store",
+    body: JSON.stringify(transaction ? { writes, transaction } : { writes }),
   });
+}
 
-  if (response.status === 403) {
-    return "";
+/** Firestore rejects commits with more writes than this. */
+export const MAX_BATCH_WRITES = 500;
+
+export const DOCUMENT_MUST_NOT_EXIST: FirestorePrecondition = { exists: false };
+export const DOCUMENT_MUST_EXIST: FirestorePrecondition = { exists: true };
+
+/** Replaces (or creates) the whole document. */
+export function setDocumentWrite(
+  path: string,
+  fields: Record<string, FirestoreValue>,
+  precondition?: FirestorePrecondition,
+): FirestoreWrite {
+  return {
+    update: { name: documentName(path), fields },
+    ...(precondition ? { currentDocument: precondition } : {}),
+  };
+}
+
+/** Writes only the listed field paths, leaving the rest of the document untouched. */
+export function updateDocumentWrite(
+  path: string,
+  fields: Record<string, FirestoreValue>,
+  fieldPaths: string[] = Object.keys(fields),
+  precondition?: FirestorePrecondition,
+): FirestoreWrite {
+  return {
+    update: { name: documentName(path), fields },
+    updateMask: { fieldPaths },
+    ...(precondition ? { currentDocument: precondition } : {}),
+  };
+}
+
+export function deleteDocumentWrite(
+  path: string,
+  precondition?: FirestorePrecondition,
+): FirestoreWrite {
+  return {
+    delete: documentName(path),
+    ...(precondition ? { currentDocument: precondition } : {}),
+  };
+}
+
+/**
+ * Applies every write atomically in one round trip. A failed precondition fails the whole
+ * batch: `exists: false` surfaces as ALREADY_EXISTS, `exists: true` as NOT_FOUND and a stale
+ * `updateTime` as FAILED_PRECONDITION.
+ */
+export async function commitBatch(writes: FirestoreWrite[], idToken: string) {
+  if (writes.length === 0) {
+    return {};
   }
+  if (writes.length > MAX_BATCH_WRITES) {
+    throw new Error(`FIRESTORE_BATCH_TOO_LARGE_${writes.length}`);
+  }
+  return commitWrites(writes, idToken);
+}
 
-  if (!response.ok) {
-    let detail = "";
-    try {
-      const json = (await response.json()) as { error?: { message?: string } };
-      detail = json.error?.message ?? "";
-    } catch {
-      detail = await response.text();
-    }
-    throw new Error(`FIRESTORE_HTTP_${response.status}${detail ? `_${detail}` : ""}`);
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+export type FirestoreTransaction = {
+  /** Reads a document inside the transaction, or null when it does not exist. */
+  get(path: string): Promise<FirestoreDocument | null>;
+};
+
+async function beginTransaction(idToken: string) {
+  const response = await requestFirestoreUrl<{ transaction: string }>(
+    getTransactionPath("beginTransaction"),
+    idToken,
+    { method: "POST", body: JSON.stringify({ options: { readWrite: {} } }) },
+  );
+  return response.transaction;
+}
+
+async function rollbackTransaction(transaction: string, idToken: string) {
+  try {
+    await requestFirestoreUrl<unknown>(getTransactionPath("rollback"), idToken, {
+      method: "POST",
+      body: JSON.stringify({ transaction }),
+    });
+  } catch {
+    // The transaction expires on its own; a failed rollback only delays lock release.
   }
+}
 
-  const rows = (await response.json()) as FirestoreRunQueryResult[];
-  for (const row of rows) {
-    const doc = row.document;
-    if (!doc) {
-      continue;
-    }
-    if (readBoolean(doc.fields, "deleted")) {
-      continue;
+/**
+ * Read-modify-write under a Firestore transaction. `work` reads through `tx.get` and returns
+ * the writes to commit plus a result; contention (ABORTED) reruns it from scratch.
+ */
+export async function runTransaction<T>(
+  idToken: string,
+  work: (tx: FirestoreTransaction) => Promise<{ writes: FirestoreWrite[]; result: T }>,
+) {
+  for (let attempt = 1; ; attempt += 1) {
+    const transaction = await beginTransaction(idToken);
+    const tx: FirestoreTransaction = {
+      async get(path) {
+        try {
+          return await requestFirestore<FirestoreDocument>(
+            `${path}?transaction=${encodeURIComponent(transaction)}`,
+            idToken,
+          );
+        } catch (error) {
+          if (error instanceof FirestoreNotFoundError) {
+            return null;
+          }
+          throw error;
+        }
+      },
+    };
+
+    let outcome: { writes: FirestoreWrite[]; result: T };
+    try {
+      outcome = await work(tx);
+    } catch (error) {
+      await rollbackTransaction(transaction, idToken);
+      throw error;
     }
-    const familyId = familyIdFromMemberDocumentName(doc.name);
-    if (familyId) {
-      return familyId;
+
+    try {
+      await commitWrites(outcome.writes, idToken, transaction);
+      return outcome.result;
+    } catch (error) {
+      const aborted = error instanceof FirestoreError && error.code === "ABORTED";
+      if (!aborted || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
     }
   }
+}
 
-  return "";
+export async function runQuery(
+  parentPath: string,
+  structuredQuery: StructuredQuery,
+  idToken: string,
+) {
+  const url = parentPath ? `${getBasePath()}/${parentPath}:runQuery` : getRunQueryPath();
+  const rows = await requestFirestoreUrl<FirestoreRunQueryResult[]>(url, idToken, {
+    method: "POST",
+    body: JSON.stringify({ structuredQuery }),
+  });
+  return rows
+    .map((row) => row.document)
+    .filter((doc): doc is FirestoreDocument => Boolean(doc));
 }
 
-export async function findFirstFamilyIdByMemberEmail(email: string, idToken: string) {
-  const normalizedEmail = email.trim().toLowerCase();
-  if (!normalizedEmail) {
-    return "";
+export function fieldFilter(
+  fieldPath: string,
+  op: FieldFilterOperator,
+  value: FirestoreValue,
+): QueryFilter {
+  return { fieldFilter: { field: { fieldPath }, op, value } };
+}
+
+// Lets optional filters be written inline as `condition && fieldFilter(...)`.
+type OptionalQueryFilter = QueryFilter | null | undefined | false | "";
+
+function compositeFilter(op: "AND" | "OR", filters: OptionalQueryFilter[]) {
+  const present = filters.filter((filter): filter is QueryFilter => Boolean(filter));
+  if (present.length <= 1) {
+    return present[0];
   }
+  return { compositeFilter: { op, filters: present } } satisfies QueryFilter;
+}
 
-  const response = await fetch(getRunQueryPath(), {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${idToken}`,
-    },
-    body: JSON.stringify({
-      structuredQuery: {
-        from: [{ collectionId: "members", allDescendants: true }],
-        where: {
-          fieldFilter: {
-            field: { fieldPath: "email" },
-            op: "EQUAL",
-            value: { stringValue: normalizedEmail },
-          },
-        },
-        limit: 20,
+/** Combines filters with AND, skipping falsy entries. */
+export function andFilter(...filters: OptionalQueryFilter[]) {
+  return compositeFilter("AND", filters);
+}
+
+export function orFilter(...filters: OptionalQueryFilter[]) {
+  return compositeFilter("OR", filters);
+}
+
+export function orderByField(
+  fieldPath: string,
+  direction: QueryOrder["direction"] = "ASCENDING",
+): QueryOrder {
+  return { field: { fieldPath }, direction };
+}
+
+export function referenceField(path: string): FirestoreValue {
+  return { referenceValue: documentName(path) };
+}
+
+export function buildStructuredQuery(options: QueryOptions): StructuredQuery {
+  return {
+    ...(options.select
+      ? { select: { fields: options.select.map((fieldPath) => ({ fieldPath })) } }
+      : {}),
+    from: [
+      {
+        collectionId: options.collection,
+        ...(options.allDescendants ? { allDescendants: true } : {}),
       },
-    }),
-    cache: "no-store",
-  });
+    ],
+    ...(options.where ? { where: options.where } : {}),
+    ...(options.orderBy?.length ? { orderBy: options.orderBy } : {}),
+    ...(options.startAfter?.length
+      ? { startAt: { values: options.startAfter, before: false } }
+      : {}),
+    ...(options.limit ? { limit: options.limit } : {}),
+  };
+}
 
-  if (response.status === 403) {
-    return "";
-  }
+function pathFromDocumentName(name: string) {
+  const marker = "/documents/";
+  const index = name.indexOf(marker);
+  return index === -1 ? name : name.slice(index + marker.length);
+}
 
-  if (!response.ok) {
-    let detail = "";
-    try {
-      const json = (await response.json()) as { error?: { message?: string } };
-      detail = json.error?.message ?? "";
-    } catch {
-      detail = await response.text();
+export async function queryDocuments(
+  options: QueryOptions,
+  idToken: string,
+): Promise<QueryDocument[]> {
+  const docs = await runQuery(options.parent ?? "", buildStructuredQuery(options), idToken);
+  return docs.map((doc) => ({
+    ...doc,
+    id: documentIdFromName(doc.name),
+    path: pathFromDocumentName(doc.name),
+  }));
+}
+
+async function findFirstFamilyIdByMemberField(
+  fieldPath: "uid" | "email",
+  value: string,
+  idToken: string,
+) {
+  let docs: QueryDocument[];
+  try {
+    docs = await queryDocuments(
+      {
+        collection: "members",
+        allDescendants: true,
+        where: fieldFilter(fieldPath, "EQUAL", stringField(value)),
+        limit: 20,
+      },
+      idToken,
+    );
+  } catch (error) {
+    // Rules deny the collection-group read when no match is visible; treat it as "none".
+    if (error instanceof FirestorePermissionDeniedError) {
+      return "";
     }
-    throw new Error(`FIRESTORE_HTTP_${response.status}${detail ? `_${detail}` : ""}`);
+    throw error;
   }
 
-  const rows = (await response.json()) as FirestoreRunQueryResult[];
-  for (const row of rows) {
-    const doc = row.document;
-    if (!doc) {
-      continue;
-    }
+  for (const doc of docs) {
     if (readBoolean(doc.fields, "deleted")) {
       continue;
     }
@@ -246,10 +538,24 @@ export async function findFirstFamilyIdByMemberEmail(email: string, idToken: str
       return familyId;
     }
   }
-
   return "";
 }
 
+export async function findFirstFamilyIdByMemberUid(uid: string, idToken: string) {
+  if (!uid) {
+    return "";
+  }
+  return findFirstFamilyIdByMemberField("uid", uid, idToken);
+}
+
+export async function findFirstFamilyIdByMemberEmail(email: string, idToken: string) {
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail) {
+    return "";
+  }
+  return findFirstFamilyIdByMemberField("email", normalizedEmail, idToken);
+}
+
 export function documentIdFromName(name: string) {
   const parts = name.split("/");
   return parts[parts.length - 1] ?? "";
@@ -312,6 +618,10 @@ export function readInteger(
     const parsed = Number(value.integerValue);
     return Number.isFinite(parsed) ? parsed : 0;
   }
+  if ("doubleValue" in value) {
+    const parsed = Math.trunc(Number(value.doubleValue));
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
   if ("stringValue" in value) {
     const parsed = Number(value.stringValue);
     return Number.isFinite(parsed) ? parsed : 0;
@@ -319,6 +629,37 @@ export function readInteger(
   return 0;
 }
 
+export function readDouble(
+  fields: Record<string, FirestoreValue> | undefined,
+  key: string,
+) {
+  const value = fields?.[key];
+  if (!value) {
+    return 0;
+  }
+  const raw =
+    "doubleValue" in value
+      ? value.doubleValue
+      : "integerValue" in value
+        ? value.integerValue
+        : "stringValue" in value
+          ? value.stringValue
+          : NaN;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function readMap(
+  fields: Record<string, FirestoreValue> | undefined,
+  key: string,
+): Record<string, FirestoreValue> {
+  const value = fields?.[key];
+  if (!value || !("mapValue" in value)) {
+    return {};
+  }
+  return value.mapValue.fields ?? {};
+}
+
 export function readStringArray(
   fields: Record<string, FirestoreValue> | undefined,
   key: string,
@@ -333,6 +674,20 @@ export function readStringArray(
     .filter((entry) => entry.length > 0);
 }
 
+export function readMapArray(
+  fields: Record<string, FirestoreValue> | undefined,
+  key: string,
+) {
+  const value = fields?.[key];
+  if (!value || !("arrayValue" in value)) {
+    return [];
+  }
+
+  return (value.arrayValue.values ?? []).flatMap((entry) =>
+    "mapValue" in entry ? [entry.mapValue.fields ?? {}] : [],
+  );
+}
+
 export function stringField(value: string): FirestoreValue {
   return { stringValue: value };
 }
@@ -349,6 +704,18 @@ export function integerField(value: number): FirestoreValue {
   return { integerValue: String(Math.max(0, Math.floor(value))) };
 }
 
+export function doubleField(value: number): FirestoreValue {
+  return { doubleValue: Number.isFinite(value) ? value : 0 };
+}
+
+export function nullField(): FirestoreValue {
+  return { nullValue: null };
+}
+
+export function mapField(fields: Record<string, FirestoreValue>): FirestoreValue {
+  return { mapValue: { fields } };
+}
+
 export function stringArrayField(values: string[]): FirestoreValue {
   return {
     arrayValue: {
@@ -356,3 +723,41 @@ export function stringArrayField(values: string[]): FirestoreValue {
     },
   };
 }
+
+export function integerArrayField(values: number[]): FirestoreValue {
+  return {
+    arrayValue: {
+      values: values.map((value) => integerField(value)),
+    },
+  };
+}
+
+export function mapArrayField(values: Record<string, FirestoreValue>[]): FirestoreValue {
+  return {
+    arrayValue: {
+      values: values.map((fields) => ({ mapValue: { fields } })),
+    },
+  };
+}
+
+export function incrementTransform(fieldPath: string, by = 1): FirestoreFieldTransform {
+  return { fieldPath, increment: { integerValue: String(Math.trunc(by)) } };
+}
+
+export function serverTimestampTransform(fieldPath: string): FirestoreFieldTransform {
+  return { fieldPath, setToServerValue: "REQUEST_TIME" };
+}
+
+export function arrayUnionTransform(fieldPath: string, values: string[]): FirestoreFieldTransform {
+  return {
+    fieldPath,
+    appendMissingElements: { values: values.map((value) => ({ stringValue: value })) },
+  };
+}
+
+export function arrayRemoveTransform(fieldPath: string, values: string[]): FirestoreFieldTransform {
+  return {
+    fieldPath,
+    removeAllFromArray: { values: values.map((value) => ({ stringValue: value })) },
+  };
+}
@@ -0,0 +1,25 @@
+/** Socket event every family notification is delivered on. */
+export const FAMILY_EVENT = "family:event";
+
+export type FamilyEvent =
+  | { type: "chore.created"; choreIds: string[] }
+  | { type: "chore.updated"; choreId: string; status?: string }
+  | { type: "chore.deleted"; choreId: string }
+  | { type: "member.added"; memberId: string }
+  | { type: "member.removed"; memberId: string }
+  | { type: "member.left"; memberId: string }
+  | { type: "member.updated"; memberId: string }
+  | { type: "family.owner_changed"; ownerUid: string }
+  | { type: "family.deleted"; restorableUntil: string }
+  | { type: "family.restored" }
+  | { type: "member.reinvited"; memberId: string }
+  | { type: "member.joined"; memberId: string };
+
+export type FamilyEventType = FamilyEvent["type"];
+
+export type FamilyEventEnvelope = {
+  familyId: string;
+  actorUid: string;
+  at: string;
+  event: FamilyEvent;
+};
@@ -0,0 +1,56 @@
+import { FAMILY_EVENT, type FamilyEvent, type FamilyEventEnvelope } from "@/lib/realtime/events";
+
+const PUBLISH_TIMEOUT_MS = 2000;
+
+async function postToWs(path: string, body: unknown) {
+  const wsUrl = process.env.WS_INTERNAL_URL;
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!wsUrl || !secret) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`${wsUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${secret}` },
+      body: JSON.stringify(body),
+      cache: "no-store",
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error("[WS_PUBLISH_ERROR]", `${path}_HTTP_${response.status}`);
+    }
+  } catch (error) {
+    const reason = error instanceof Error && error.message ? error.message : "unknown";
+    console.error("[WS_PUBLISH_ERROR]", reason.slice(0, 180));
+  }
+}
+
+/**
+ * Broadcasts an event to every socket in the family room. Delivery is best effort: the write
+ * has already succeeded, so a missing or unreachable ws server is logged and never thrown.
+ */
+export async function publishFamilyEvent(familyId: string, actorUid: string, event: FamilyEvent) {
+  if (!familyId) {
+    return;
+  }
+  const envelope: FamilyEventEnvelope = {
+    familyId,
+    actorUid,
+    at: new Date().toISOString(),
+    event,
+  };
+  await postToWs("/internal/publish", {
+    room: `family:${familyId}`,
+    event: FAMILY_EVENT,
+    payload: envelope,
+  });
+}
+
+/** Drops a removed member's open sockets out of the family room until they reconnect. */
+export async function removeUserFromFamilyRoom(familyId: string, uid: string) {
+  if (!familyId || !uid) {
+    return;
+  }
+  await postToWs("/internal/leave", { room: `family:${familyId}`, uid });
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { FAMILY_EVENT, type FamilyEventEnvelope } from "@/lib/realtime/events";
+import { getSocket } from "@/lib/ws";
+
+/**
+ * Subscribes to live family events for as long as the component is mounted. The socket is
+ * connected on first use and disconnected once the last subscriber goes away.
+ */
+export function useFamilyEvents(onEvent: (envelope: FamilyEventEnvelope) => void) {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const socket = getSocket();
+    const listener = (envelope: FamilyEventEnvelope) => handlerRef.current(envelope);
+    socket.on(FAMILY_EVENT, listener);
+    if (!socket.connected) {
+      socket.connect();
+    }
+
+    return () => {
+      socket.off(FAMILY_EVENT, listener);
+      if (!socket.hasListeners(FAMILY_EVENT)) {
+        socket.disconnect();
+      }
+    };
+  }, []);
+}
@@ -0,0 +1,119 @@
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  DOCUMENT_MUST_NOT_EXIST,
+  type FirestoreValue,
+  getDocument,
+  readString,
+  runTransaction,
+  stringField,
+  timestampField,
+  updateDocumentWrite,
+} from "@/lib/firestore/rest";
+import { getShopItem, type ShopItemCategory } from "@/lib/shop/catalog";
+import { inventoryPath } from "@/lib/shop/inventory";
+
+export type AvatarSlot = "head" | "body" | "accessory" | "pet";
+
+export type AvatarLoadout = Record<AvatarSlot, string | null>;
+
+export const AVATAR_SLOTS: AvatarSlot[] = ["head", "body", "accessory", "pet"];
+
+export const SLOT_CATEGORY: Record<AvatarSlot, ShopItemCategory> = {
+  head: "hat",
+  body: "outfit",
+  accessory: "accessory",
+  pet: "pet",
+};
+
+export type EquipItemResult =
+  | { kind: "ok"; avatar: AvatarLoadout }
+  | { kind: "item_not_found" }
+  | { kind: "wrong_slot" }
+  | { kind: "not_owned" };
+
+export function isAvatarSlot(value: string): value is AvatarSlot {
+  return value === "head" || value === "body" || value === "accessory" || value === "pet";
+}
+
+export function emptyAvatar(): AvatarLoadout {
+  return { head: null, body: null, accessory: null, pet: null };
+}
+
+function avatarPath(familyId: string, memberId: string) {
+  return `families/${familyId}/avatars/${memberId}`;
+}
+
+export function normalizeAvatarFields(
+  fields: Record<string, FirestoreValue> | undefined,
+): AvatarLoadout {
+  const avatar = emptyAvatar();
+  for (const slot of AVATAR_SLOTS) {
+    const itemId = readString(fields, slot);
+    // Ignore ids that dropped out of the catalog or sit in the wrong slot.
+    if (itemId && getShopItem(itemId)?.category === SLOT_CATEGORY[slot]) {
+      avatar[slot] = itemId;
+    }
+  }
+  return avatar;
+}
+
+export async function getAvatar(familyId: string, memberId: string, idToken: string) {
+  try {
+    const doc = await getDocument(avatarPath(familyId, memberId), idToken);
+    return normalizeAvatarFields(doc.fields);
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return emptyAvatar();
+    }
+    throw error;
+  }
+}
+
+/** Equips an owned item into a slot, or clears the slot when `itemId` is null. */
+export async function equipItem({
+  familyId,
+  memberId,
+  slot,
+  itemId,
+  idToken,
+}: {
+  familyId: string;
+  memberId: string;
+  slot: AvatarSlot;
+  itemId: string | null;
+  idToken: string;
+}): Promise<EquipItemResult> {
+  if (itemId) {
+    const item = getShopItem(itemId);
+    if (!item) {
+      return { kind: "item_not_found" };
+    }
+    if (item.category !== SLOT_CATEGORY[slot]) {
+      return { kind: "wrong_slot" };
+    }
+  }
+
+  // Only the changed slot is written, and only over the loadout read here, so equipping two
+  // slots at once never loses either change.
+  return runTransaction<EquipItemResult>(idToken, async (tx) => {
+    if (itemId && !(await tx.get(`${inventoryPath(familyId, memberId)}/${itemId}`))) {
+      return { writes: [], result: { kind: "not_owned" } };
+    }
+    const avatarDoc = await tx.get(avatarPath(familyId, memberId));
+    const avatar: AvatarLoadout = { ...normalizeAvatarFields(avatarDoc?.fields), [slot]: itemId };
+    return {
+      writes: [
+        updateDocumentWrite(
+          avatarPath(familyId, memberId),
+          {
+            [slot]: stringField(itemId ?? ""),
+            updatedAt: timestampField(new Date().toISOString()),
+          },
+          undefined,
+          avatarDoc?.updateTime ? { updateTime: avatarDoc.updateTime } : DOCUMENT_MUST_NOT_EXIST,
+        ),
+      ],
+      result: { kind: "ok", avatar },
+    };
+  });
+}
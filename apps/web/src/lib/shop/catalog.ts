@@ -0,0 +1,104 @@
+export type ShopItemCategory = "hat" | "outfit" | "accessory" | "pet";
+
+export type ShopItemRarity = "common" | "rare" | "epic" | "legendary";
+
+export type SpriteSheet = "/hats.png" | "/outfits.png" | "/accessories.png" | "/pets.png";
+
+export type ShopItemSprite = {
+  sheet: SpriteSheet;
+  column: number;
+  row: number;
+};
+
+export type ShopItem = {
+  id: string;
+  name: string;
+  category: ShopItemCategory;
+  price: number;
+  rarity: ShopItemRarity;
+  sprite: ShopItemSprite;
+};
+
+// Every sheet in public/ is a 1024x1536 grid with five columns of equally spaced cells.
+export const SPRITE_SHEET_LAYOUT = {
+  width: 1024,
+  height: 1536,
+  cellWidth: 204.8,
+  cellHeight: 195,
+};
+
+const SHEET_BY_CATEGORY: Record<ShopItemCategory, SpriteSheet> = {
+  hat: "/hats.png",
+  outfit: "/outfits.png",
+  accessory: "/accessories.png",
+  pet: "/pets.png",
+};
+
+function item(
+  category: ShopItemCategory,
+  id: string,
+  name: string,
+  price: number,
+  rarity: ShopItemRarity,
+  [column, row]: [number, number],
+): ShopItem {
+  return {
+    id,
+    name,
+    category,
+    price,
+    rarity,
+    sprite: { sheet: SHEET_BY_CATEGORY[category], column, row },
+  };
+}
+
+// Prices are mirrored in firestore.rules (`shopItemPrice`) so player purchases can be checked
+// there; keep both in step.
+export const SHOP_CATALOG: ShopItem[] = [
+  item("hat", "hat-red-cap", "Red Cap", 20, "common", [0, 0]),
+  item("hat", "hat-chef", "Chef Hat", 25, "common", [4, 0]),
+  item("hat", "hat-santa", "Festive Cap", 40, "common", [4, 5]),
+  item("hat", "hat-aviator", "Aviator Cap", 60, "rare", [0, 1]),
+  item("hat", "hat-green-wizard", "Green Wizard Hat", 75, "rare", [2, 1]),
+  item("hat", "hat-frog-hood", "Frog Hood", 80, "rare", [0, 4]),
+  item("hat", "hat-knight-helm", "Knight Helm", 90, "rare", [3, 1]),
+  item("hat", "hat-pirate", "Pirate Hat", 140, "epic", [0, 3]),
+  item("hat", "hat-star-wizard", "Starry Wizard Hat", 150, "epic", [1, 2]),
+  item("hat", "hat-gold-crown", "Golden Crown", 300, "legendary", [4, 3]),
+  item("outfit", "outfit-apron", "Kitchen Apron", 20, "common", [0, 0]),
+  item("outfit", "outfit-red-tee", "Red Tee", 25, "common", [3, 5]),
+  item("outfit", "outfit-overalls", "Overalls", 30, "common", [4, 5]),
+  item("outfit", "outfit-ranger-cloak", "Ranger Cloak", 70, "rare", [0, 1]),
+  item("outfit", "outfit-purple-cloak", "Mystic Cloak", 80, "rare", [0, 4]),
+  item("outfit", "outfit-blue-robe", "Blue Mage Robe", 85, "rare", [1, 1]),
+  item("outfit", "outfit-frog-suit", "Frog Suit", 150, "epic", [0, 3]),
+  item("outfit", "outfit-knight-armor", "Knight Armor", 160, "epic", [2, 0]),
+  item("accessory", "accessory-gem-belt", "Gem Belt", 20, "common", [0, 0]),
+  item("accessory", "accessory-green-scarf", "Green Scarf", 25, "common", [4, 1]),
+  item("accessory", "accessory-compass", "Explorer Compass", 55, "rare", [3, 0]),
+  item("accessory", "accessory-dagger", "Trusty Dagger", 60, "rare", [3, 5]),
+  item("accessory", "accessory-red-cape", "Red Cape", 70, "rare", [0, 1]),
+  item("accessory", "accessory-ruby-ring", "Ruby Ring", 120, "epic", [1, 2]),
+  item("accessory", "accessory-sapphire-amulet", "Sapphire Amulet", 140, "epic", [0, 3]),
+  item("pet", "pet-slime", "Slime Buddy", 40, "common", [4, 0]),
+  item("pet", "pet-grey-kitten", "Grey Kitten", 50, "common", [0, 0]),
+  item("pet", "pet-bunny", "Carrot Bunny", 60, "common", [0, 2]),
+  item("pet", "pet-bee", "Bumble Bee", 80, "rare", [2, 2]),
+  item("pet", "pet-owl", "Scout Owl", 90, "rare", [2, 0]),
+  item("pet", "pet-bat", "Night Bat", 90, "rare", [3, 1]),
+  item("pet", "pet-fox", "Scarf Fox", 100, "rare", [2, 1]),
+  item("pet", "pet-ghost", "Friendly Ghost", 200, "epic", [3, 3]),
+  item("pet", "pet-panda", "Bamboo Panda", 220, "epic", [2, 5]),
+  item("pet", "pet-ember-drake", "Ember Drake", 400, "legendary", [1, 0]),
+  item("pet", "pet-forest-dragon", "Forest Dragon", 450, "legendary", [1, 4]),
+];
+
+const CATALOG_BY_ID = new Map(SHOP_CATALOG.map((entry) => [entry.id, entry]));
+
+export function getShopItem(itemId: string) {
+  return CATALOG_BY_ID.get(itemId) ?? null;
+}
+
+export function isShopItemCategory(value: string): value is ShopItemCategory {
+  return value === "hat" || value === "outfit" || value === "accessory" || value === "pet";
+}
@@ -0,0 +1,135 @@
+import { appendLedgerEntry } from "@/lib/family/wallet";
+import { decodeFields, field } from "@/lib/firestore/codec";
+import { FirestoreNotFoundError } from "@/lib/firestore/errors";
+import {
+  documentIdFromName,
+  documentName,
+  getDocument,
+  integerField,
+  listAllDocuments,
+  stringField,
+  timestampField,
+} from "@/lib/firestore/rest";
+import { getShopItem, type ShopItem } from "@/lib/shop/catalog";
+
+export type InventoryItem = {
+  itemId: string;
+  category: string;
+  pricePaid: number;
+  acquiredAt: string;
+};
+
+export type PurchaseItemResult =
+  | { kind: "ok"; inventoryItem: InventoryItem; balance: number }
+  | { kind: "already_owned" }
+  | { kind: "insufficient_funds"; balance: number };
+
+const inventoryItemSchema = {
+  category: field.string(),
+  pricePaid: field.integer(),
+  acquiredAt: field.timestamp(),
+};
+
+export function inventoryPath(familyId: string, memberId: string) {
+  return `families/${familyId}/members/${memberId}/inventory`;
+}
+
+export function purchaseEntryId(itemId: string) {
+  return `purchase-${itemId}`;
+}
+
+export async function listInventory(familyId: string, memberId: string, idToken: string) {
+  const docs = await listAllDocuments(inventoryPath(familyId, memberId), idToken);
+  return docs
+    .map((doc) => ({
+      itemId: documentIdFromName(doc.name),
+      ...decodeFields(doc.fields, inventoryItemSchema),
+    }))
+    .filter((entry) => getShopItem(entry.itemId) !== null);
+}
+
+export async function ownsItem(
+  familyId: string,
+  memberId: string,
+  itemId: string,
+  idToken: string,
+) {
+  try {
+    await getDocument(`${inventoryPath(familyId, memberId)}/${itemId}`, idToken);
+    return true;
+  } catch (error) {
+    if (error instanceof FirestoreNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Debits the member's wallet and grants the item in one commit. The ledger entry id is
+ * derived from the item so a double-clicked purchase can never charge twice.
+ */
+export async function purchaseItem({
+  familyId,
+  memberId,
+  item,
+  createdBy,
+  idToken,
+}: {
+  familyId: string;
+  memberId: string;
+  item: ShopItem;
+  createdBy: string;
+  idToken: string;
+}): Promise<PurchaseItemResult> {
+  if (await ownsItem(familyId, memberId, item.id, idToken)) {
+    return { kind: "already_owned" };
+  }
+
+  const now = new Date().toISOString();
+  const result = await appendLedgerEntry({
+    familyId,
+    memberId,
+    kind: "debit",
+    amount: item.price,
+    reason: "purchase",
+    note: item.name,
+    itemId: item.id,
+    entryId: purchaseEntryId(item.id),
+    createdBy,
+    idToken,
+    extraWrites: [
+      {
+        update: {
+          name: documentName(`${inventoryPath(familyId, memberId)}/${item.id}`),
+          fields: {
+            itemId: stringField(item.id),
+            category: stringField(item.category),
+            pricePaid: integerField(item.price),
+            acquiredAt: timestampField(now),
+            purchasedBy: stringField(createdBy),
+          },
+        },
+        currentDocument: { exists: false },
+      },
+    ],
+  });
+
+  if (result.kind === "duplicate_entry") {
+    return { kind: "already_owned" };
+  }
+  if (result.kind === "insufficient_funds") {
+    return result;
+  }
+
+  return {
+    kind: "ok",
+    balance: result.entry.balanceAfter,
+    inventoryItem: {
+      itemId: item.id,
+      category: item.category,
+      pricePaid: item.price,
+      acquiredAt: now,
+    },
+  };
+}
@@ -2,13 +2,34 @@ import { io, Socket } from "socket.io-client";
 
 let socket: Socket | null = null;
 
+async function fetchWsTicket() {
+	const response = await fetch("/api/ws/ticket", { method: "POST", cache: "no-store" });
+	if (!response.ok) {
+		throw new Error(`WS_TICKET_HTTP_${response.status}`);
+	}
+	const payload = (await response.json()) as { ticket: string };
+	return payload.ticket;
+}
+
 export function getSocket() {
 	if (socket) return socket;
 
 	socket = io(process.env.NEXT_PUBLIC_WS_URL ?? "http://localhost:3001", {
 		transports: ["websocket"],
 		autoConnect: false,
+		// Called on every (re)connect so each handshake gets a fresh short-lived ticket.
+		auth: (callback) => {
+			fetchWsTicket()
+				.then((ticket) => callback({ ticket }))
+				.catch(() => callback({}));
+		},
 	});
 
 	return socket;
 }
+
+// Forces a fresh handshake so the server re-derives rooms, e.g. after joining a family.
+export function reconnectSocket() {
+	if (!socket?.connected) return;
+	socket.disconnect().connect();
+}
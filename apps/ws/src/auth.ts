@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type WsIdentity = {
+	uid: string;
+	familyIds: string[];
+};
+
+type WsTicketPayload = WsIdentity & { exp: number };
+
+function getSecret() {
+	const secret = process.env.WS_TICKET_SECRET;
+	if (!secret || secret.length < 32) {
+		return null;
+	}
+	return secret;
+}
+
+export function isTicketAuthConfigured() {
+	return getSecret() !== null;
+}
+
+// Verifies a `payload.signature` ticket minted by the web app's /api/ws/ticket route.
+export function verifyWsTicket(ticket: unknown): WsIdentity | null {
+	const secret = getSecret();
+	if (!secret || typeof ticket !== "string") {
+		return null;
+	}
+
+	const [encodedPayload, signature] = ticket.split(".");
+	if (!encodedPayload || !signature) {
+		return null;
+	}
+
+	const expected = createHmac("sha256", secret).update(encodedPayload).digest("base64url");
+	const expectedBuf = Buffer.from(expected);
+	const providedBuf = Buffer.from(signature);
+	if (expectedBuf.length !== providedBuf.length || !timingSafeEqual(expectedBuf, providedBuf)) {
+		return null;
+	}
+
+	try {
+		const payload = JSON.parse(
+			Buffer.from(encodedPayload, "base64url").toString("utf8"),
+		) as Partial<WsTicketPayload>;
+		if (
+			typeof payload.uid !== "string" ||
+			!payload.uid ||
+			!Array.isArray(payload.familyIds) ||
+			typeof payload.exp !== "number" ||
+			payload.exp < Math.floor(Date.now() / 1000)
+		) {
+			return null;
+		}
+		return {
+			uid: payload.uid,
+			familyIds: payload.familyIds.filter((id): id is string => typeof id === "string" && !!id),
+		};
+	} catch {
+		return null;
+	}
+}
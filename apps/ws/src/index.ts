@@ -1,5 +1,8 @@
 import { createServer } from "node:http";
 import { Server } from "socket.io";
+import { isTicketAuthConfigured, verifyWsTicket } from "./auth.js";
+import { handleInternalRequest } from "./publish.js";
+import { startChoreScheduler } from "./scheduler.js";
 
 const PORT = Number(process.env.PORT ?? 3001);
 const ORIGIN = process.env.WS_ORIGIN;
@@ -8,32 +11,43 @@ if (!ORIGIN) {
 	throw new Error("WS_ORIGIN env var is required for websocket CORS.");
 }
 
-const httpServer = createServer();
+if (!isTicketAuthConfigured()) {
+	throw new Error("WS_TICKET_SECRET env var (32+ chars) is required to authenticate sockets.");
+}
+
+const httpServer = createServer((request, response) => {
+	void handleInternalRequest(io, request, response);
+});
 
 const io = new Server(httpServer, {
 	cors: { origin: ORIGIN, methods: ["GET", "POST"], credentials: true },
 	transports: ["websocket"],
 });
 
+// Identity comes only from a ticket signed by the web app; clients cannot pick their rooms.
+io.use((socket, next) => {
+	const identity = verifyWsTicket(socket.handshake.auth?.ticket);
+	if (!identity) {
+		next(new Error("unauthorized"));
+		return;
+	}
+	socket.data.uid = identity.uid;
+	socket.data.familyIds = identity.familyIds;
+	next();
+});
+
 io.on("connection", (socket) => {
 	console.log("client connected");
 
-	socket.on(
-		"auth:identify",
-		(payload: { uid: string; familyIds: string[] }) => {
-			const { uid, familyIds } = payload;
-
-			socket.data.uid = uid;
+	const { uid, familyIds } = socket.data as { uid: string; familyIds: string[] };
 
-			for (const familyId of familyIds) {
-				socket.join(`family:${familyId}`);
-			}
+	for (const familyId of familyIds) {
+		socket.join(`family:${familyId}`);
+	}
 
-			socket.join(`user:${uid}`);
+	socket.join(`user:${uid}`);
 
-			socket.emit("auth:ok");
-		},
-	);
+	socket.emit("auth:ok");
 
 	socket.on("disconnect", () => {
 		console.log("client disconnected");
@@ -42,4 +56,5 @@ io.on("connection", (socket) => {
 
 httpServer.listen(PORT, () => {
 	console.log(`[ws] listening on :${PORT}`);
+	startChoreScheduler();
 });
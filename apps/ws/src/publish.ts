@@ -0,0 +1,103 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Server } from "socket.io";
+
+const MAX_BODY_BYTES = 64 * 1024;
+const ROOM_PATTERN = /^(family|user):[\w.@+-]{1,200}$/;
+
+type PublishBody = {
+	room?: unknown;
+	event?: unknown;
+	payload?: unknown;
+};
+
+type LeaveBody = {
+	room?: unknown;
+	uid?: unknown;
+};
+
+function isAuthorized(request: IncomingMessage) {
+	const secret = process.env.INTERNAL_API_SECRET;
+	const header = request.headers.authorization ?? "";
+	if (!secret || secret.length < 32 || !header.startsWith("Bearer ")) {
+		return false;
+	}
+
+	const expectedBuf = Buffer.from(secret);
+	const providedBuf = Buffer.from(header.slice("Bearer ".length));
+	return expectedBuf.length === providedBuf.length && timingSafeEqual(expectedBuf, providedBuf);
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+	response.writeHead(status, { "Content-Type": "application/json" });
+	response.end(JSON.stringify(body));
+}
+
+async function readJsonBody(request: IncomingMessage) {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of request) {
+		const buffer = chunk as Buffer;
+		size += buffer.length;
+		if (size > MAX_BODY_BYTES) {
+			throw new Error("BODY_TOO_LARGE");
+		}
+		chunks.push(buffer);
+	}
+	return JSON.parse(Buffer.concat(chunks).toString("utf8")) as unknown;
+}
+
+function isRoom(value: unknown): value is string {
+	return typeof value === "string" && ROOM_PATTERN.test(value);
+}
+
+/**
+ * Internal HTTP endpoints the web app uses to push into socket rooms. Socket.io handles its own
+ * path before this runs, so anything that reaches here is a plain HTTP request.
+ */
+export async function handleInternalRequest(
+	io: Server,
+	request: IncomingMessage,
+	response: ServerResponse,
+) {
+	const path = (request.url ?? "").split("?")[0];
+	if (request.method !== "POST" || (path !== "/internal/publish" && path !== "/internal/leave")) {
+		sendJson(response, 404, { error: "not_found" });
+		return;
+	}
+	if (!isAuthorized(request)) {
+		sendJson(response, 401, { error: "unauthorized" });
+		return;
+	}
+
+	let body: unknown;
+	try {
+		body = await readJsonBody(request);
+	} catch {
+		sendJson(response, 400, { error: "invalid_json" });
+		return;
+	}
+	if (!body || typeof body !== "object") {
+		sendJson(response, 400, { error: "invalid_json" });
+		return;
+	}
+
+	if (path === "/internal/publish") {
+		const { room, event, payload } = body as PublishBody;
+		if (!isRoom(room) || typeof event !== "string" || !event) {
+			sendJson(response, 400, { error: "invalid_publish" });
+			return;
+		}
+		io.to(room).emit(event, payload ?? null);
+		sendJson(response, 200, { success: true });
+		return;
+	}
+
+	const { room, uid } = body as LeaveBody;
+	if (!isRoom(room) || typeof uid !== "string" || !isRoom(`user:${uid}`)) {
+		sendJson(response, 400, { error: "invalid_leave" });
+		return;
+	}
+	io.in(`user:${uid}`).socketsLeave(room);
+	sendJson(response, 200, { success: true });
+}
@@ -0,0 +1,53 @@
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+async function runChoreScheduler(url: string, secret: string) {
+	try {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { Authorization: `Bearer ${secret}` },
+		});
+		const body = (await response.json()) as {
+			schedules?: number;
+			created?: number;
+			error?: string;
+		};
+		if (!response.ok) {
+			console.error(`[ws] chore scheduler failed: ${body.error ?? response.status}`);
+			return;
+		}
+		if (body.created) {
+			console.log(`[ws] chore scheduler created ${body.created} chore(s)`);
+		}
+	} catch (error) {
+		console.error("[ws] chore scheduler unreachable", error);
+	}
+}
+
+// Periodically asks the web app to materialize recurring chores for every family.
+export function startChoreScheduler() {
+	const webUrl = process.env.WEB_INTERNAL_URL;
+	const secret = process.env.INTERNAL_API_SECRET;
+	if (!webUrl || !secret) {
+		console.warn(
+			"[ws] WEB_INTERNAL_URL or INTERNAL_API_SECRET missing; chore scheduler disabled.",
+		);
+		return;
+	}
+
+	const intervalMs = Number(process.env.SCHEDULE_INTERVAL_MS ?? DEFAULT_INTERVAL_MS);
+	const url = new URL("/api/chores/schedules/run", webUrl).toString();
+	let running = false;
+
+	const tick = async () => {
+		// Skip a tick rather than overlap runs when the web app is slow.
+		if (running) {
+			return;
+		}
+		running = true;
+		await runChoreScheduler(url, secret);
+		running = false;
+	};
+
+	void tick();
+	setInterval(() => void tick(), intervalMs);
+}